@@ -0,0 +1,273 @@
+import { RPCMethod, type MessageSigner } from "@erc7824/nitrolite";
+import type { Address, Hex } from "viem";
+import type { Client } from "./Client";
+import { QuorumNotReachedError } from "./errors";
+import { TypedEmitter, type EventListener } from "./TypedEmitter";
+import type {
+	AppSessionUpdateParams,
+	RPCAppDefinition,
+	RPCAppSessionAllocation,
+	RPCAppStateIntent,
+	RPCChannelStatus,
+	RPCProtocolVersion,
+} from "./rpc";
+
+export type CreateAppSessionParams = {
+	participants: Address[];
+	/**
+	 * Signature weight of each participant, in the same order as `participants`.
+	 */
+	weights: number[];
+	/**
+	 * Total weight of signatures required to accept a state update.
+	 */
+	quorum: number;
+	/**
+	 * Initial allocations, funded from the participants' unified balances.
+	 */
+	allocations: RPCAppSessionAllocation[];
+	/**
+	 * Defaults to "NitroRPC/0.4", which versions every state update.
+	 */
+	protocol?: RPCProtocolVersion;
+	/**
+	 * Defaults to "clearnode".
+	 */
+	application?: string;
+	/**
+	 * Challenge period in seconds. Defaults to 0.
+	 */
+	challenge?: number;
+	/**
+	 * Defaults to the current timestamp.
+	 */
+	nonce?: number;
+	sessionData?: string;
+	/**
+	 * Message signers of the participants available locally, keyed by participant address.
+	 * Requests are signed by these signers, in participant order, until their weights reach the quorum.
+	 * When omitted, requests are signed with the client signer and the clearnode enforces the quorum.
+	 */
+	signers?: Record<Address, MessageSigner>;
+};
+
+export type SubmitAppStateParams = {
+	allocations: RPCAppSessionAllocation[];
+	/**
+	 * NitroRPC/0.4 only. Defaults to "operate".
+	 */
+	intent?: RPCAppStateIntent;
+	sessionData?: string;
+};
+
+export type CloseAppSessionParams = {
+	/**
+	 * Final allocations. Defaults to the current allocations.
+	 */
+	allocations?: RPCAppSessionAllocation[];
+	sessionData?: string;
+};
+
+export type AppSessionState = {
+	appSessionId: Hex;
+	version: number;
+	status: RPCChannelStatus;
+	allocations: RPCAppSessionAllocation[];
+	sessionData?: string;
+};
+
+export type AppSessionEvents = {
+	/**
+	 * The local state changed, after a submitted update or a server push.
+	 */
+	stateChange: AppSessionState;
+	/**
+	 * The session was closed.
+	 */
+	closed: AppSessionState;
+};
+
+const DEFAULT_PROTOCOL: RPCProtocolVersion = "NitroRPC/0.4";
+const DEFAULT_APPLICATION = "clearnode";
+
+/**
+ * A clearnode application session (virtual app) between several participants.
+ * Tracks the version and allocations locally, signs updates with a quorum of participant signers,
+ * and follows `appSessionUpdate` pushes from the clearnode.
+ */
+export class AppSession {
+	readonly appSessionId: Hex;
+	readonly definition: RPCAppDefinition;
+	private current: AppSessionState;
+	private events = new TypedEmitter<AppSessionEvents>();
+	private removeUpdateListener: () => void;
+
+	private constructor(
+		private readonly client: Client,
+		definition: RPCAppDefinition,
+		state: AppSessionState,
+		private readonly signers?: Record<Address, MessageSigner>
+	) {
+		this.appSessionId = state.appSessionId;
+		this.definition = definition;
+		this.current = state;
+		this.removeUpdateListener = client.on("appSessionUpdate", (update) => this.handleUpdate(update));
+	}
+
+	/**
+	 * Creates the session on the clearnode. Prefer `client.createAppSession`.
+	 */
+	static async create(client: Client, params: CreateAppSessionParams): Promise<AppSession> {
+		const definition: RPCAppDefinition = {
+			application: params.application ?? DEFAULT_APPLICATION,
+			protocol: params.protocol ?? DEFAULT_PROTOCOL,
+			participants: params.participants,
+			weights: params.weights,
+			quorum: params.quorum,
+			challenge: params.challenge ?? 0,
+			nonce: params.nonce ?? Date.now(),
+		};
+		const result = await client.call(
+			RPCMethod.CreateAppSession,
+			{ definition, allocations: params.allocations, session_data: params.sessionData },
+			{ signers: selectQuorumSigners(definition, params.signers) }
+		);
+		return new AppSession(
+			client,
+			definition,
+			{
+				appSessionId: result.appSessionId,
+				version: result.version,
+				status: result.status,
+				allocations: params.allocations,
+				sessionData: params.sessionData,
+			},
+			params.signers
+		);
+	}
+
+	get state(): AppSessionState {
+		return this.current;
+	}
+
+	get version(): number {
+		return this.current.version;
+	}
+
+	get allocations(): RPCAppSessionAllocation[] {
+		return this.current.allocations;
+	}
+
+	get status(): RPCChannelStatus {
+		return this.current.status;
+	}
+
+	/**
+	 * Submits a new state signed by a quorum of participants. Under NitroRPC/0.4 the next version is sent with the update.
+	 * @param params New allocations, intent and session data
+	 * @returns Promise resolving to the accepted state
+	 */
+	async submitState(params: SubmitAppStateParams): Promise<AppSessionState> {
+		const versioned = this.definition.protocol === "NitroRPC/0.4";
+		const result = await this.client.call(
+			RPCMethod.SubmitAppState,
+			{
+				app_session_id: this.appSessionId,
+				...(versioned ? { intent: params.intent ?? "operate", version: this.current.version + 1 } : {}),
+				allocations: params.allocations,
+				session_data: params.sessionData,
+			},
+			{ signers: selectQuorumSigners(this.definition, this.signers) }
+		);
+		this.setState({
+			appSessionId: this.appSessionId,
+			version: result.version,
+			status: result.status,
+			allocations: params.allocations,
+			sessionData: params.sessionData ?? this.current.sessionData,
+		});
+		return this.current;
+	}
+
+	/**
+	 * Closes the session with final allocations signed by a quorum of participants, releasing the funds to their unified balances.
+	 * @param params Final allocations and session data
+	 * @returns Promise resolving to the final state
+	 */
+	async close(params?: CloseAppSessionParams): Promise<AppSessionState> {
+		const allocations = params?.allocations ?? this.current.allocations;
+		const result = await this.client.call(
+			RPCMethod.CloseAppSession,
+			{ app_session_id: this.appSessionId, allocations, session_data: params?.sessionData },
+			{ signers: selectQuorumSigners(this.definition, this.signers) }
+		);
+		this.setState({
+			appSessionId: this.appSessionId,
+			version: result.version,
+			status: result.status,
+			allocations,
+			sessionData: params?.sessionData ?? this.current.sessionData,
+		});
+		return this.current;
+	}
+
+	on<K extends keyof AppSessionEvents>(event: K, listener: EventListener<AppSessionEvents[K]>): () => void {
+		return this.events.on(event, listener);
+	}
+
+	once<K extends keyof AppSessionEvents>(event: K, listener: EventListener<AppSessionEvents[K]>): () => void {
+		return this.events.once(event, listener);
+	}
+
+	off<K extends keyof AppSessionEvents>(event: K, listener: EventListener<AppSessionEvents[K]>): void {
+		this.events.off(event, listener);
+	}
+
+	private handleUpdate(update: AppSessionUpdateParams): void {
+		if (update.appSessionId.toLowerCase() !== this.appSessionId.toLowerCase()) return;
+		// Ignore pushes that echo a state we already hold
+		if (update.version < this.current.version) return;
+		if (update.version === this.current.version && update.status === this.current.status) return;
+		this.setState({
+			appSessionId: this.appSessionId,
+			version: update.version,
+			status: update.status,
+			allocations: update.participantAllocations,
+			sessionData: update.sessionData,
+		});
+	}
+
+	private setState(state: AppSessionState): void {
+		this.current = state;
+		this.events.emit("stateChange", state);
+		if (state.status === "closed") {
+			this.removeUpdateListener();
+			this.events.emit("closed", state);
+		}
+	}
+}
+
+/**
+ * Picks signers in participant order until their weights reach the quorum.
+ * Returns undefined when no signers were given, so the client signer is used instead.
+ */
+function selectQuorumSigners(
+	definition: RPCAppDefinition,
+	signers?: Record<Address, MessageSigner>
+): MessageSigner[] | undefined {
+	if (!signers) return undefined;
+	const byAddress = new Map(Object.entries(signers).map(([address, signer]) => [address.toLowerCase(), signer]));
+	const selected: MessageSigner[] = [];
+	let weight = 0;
+	definition.participants.forEach((participant, index) => {
+		const signer = byAddress.get(participant.toLowerCase());
+		if (signer && weight < definition.quorum) {
+			selected.push(signer);
+			weight += definition.weights[index] ?? 0;
+		}
+	});
+	if (weight < definition.quorum) {
+		throw new QuorumNotReachedError(weight, definition.quorum);
+	}
+	return selected;
+}
@@ -0,0 +1,351 @@
+import { RPCMethod, type ChannelId, type CreateChannelParams, type Hash } from "@erc7824/nitrolite";
+import type { Address } from "viem";
+import type { Client } from "./Client";
+import type { ChainToken } from "./NitroliteRegistry";
+import { MemoryStorage, parseWithBigInt, stringifyWithBigInt, type KeyValueStorage } from "./storage";
+import type { RPCChannel, RPCChannelOperation } from "./rpc";
+
+export type ChannelFlowKind = "open" | "topUp" | "close";
+
+/**
+ * Steps of the channel flows, named after the clearnode RPC or on-chain call they make:
+ * - open: create_channel → depositAndCreateChannel → resize_channel → resizeChannel
+ * - topUp: deposit → resize_channel → resizeChannel
+ * - close: close_channel → closeChannel → withdrawal
+ */
+export type ChannelFlowStep =
+	| "create_channel"
+	| "depositAndCreateChannel"
+	| "deposit"
+	| "resize_channel"
+	| "resizeChannel"
+	| "close_channel"
+	| "closeChannel"
+	| "withdrawal";
+
+/**
+ * Progress of an unfinished channel flow, persisted after every completed step.
+ */
+export type ChannelFlow = {
+	kind: ChannelFlowKind;
+	/**
+	 * Asset symbol; open flows only.
+	 */
+	asset?: string;
+	/**
+	 * Unknown until create_channel of an open flow completes.
+	 */
+	channelId?: ChannelId;
+	/**
+	 * In the asset's smallest unit. For close flows, the amount withdrawn once known.
+	 */
+	amount: bigint;
+	completed: ChannelFlowStep[];
+	txHashes: Hash[];
+};
+
+export type ChannelFlowResult = {
+	channelId: ChannelId;
+	/**
+	 * Every transaction sent by the flow, including those of earlier interrupted runs.
+	 */
+	txHashes: Hash[];
+};
+
+type FlowRecord = ChannelFlow & {
+	key: string;
+	operation?: RPCChannelOperation & { channel?: RPCChannel };
+	/**
+	 * Chain and token of the channel, which every on-chain call of the flow targets.
+	 */
+	target?: ChainToken;
+	/**
+	 * Custody balance before the flow's deposit or withdrawal was sent, to tell whether it landed.
+	 */
+	custodyBalance?: bigint;
+};
+
+type Step = [ChannelFlowStep, (flow: FlowRecord) => Promise<void>];
+
+const KEY_PREFIX = "flow:";
+
+/**
+ * Runs the multi-step channel flows of a Client, coordinating the clearnode channel RPCs with the on-chain calls.
+ * Progress is saved after every step, so a flow interrupted by a crash or a failed transaction continues where it
+ * stopped when started again or resumed. An on-chain step that may already have landed is checked before it is
+ * sent again: channel creation and closing against the account's channels, deposits and withdrawals against the
+ * custody balance saved before they were sent.
+ */
+export class ChannelLifecycle {
+	private readonly storage: KeyValueStorage;
+	private readonly running = new Map<string, Promise<ChannelFlowResult>>();
+
+	constructor(
+		private readonly client: Client,
+		private readonly context: {
+			storage?: KeyValueStorage;
+			/**
+			 * Wallet receiving channel funds.
+			 */
+			account: () => Address | undefined;
+			chainId: () => number | undefined;
+		}
+	) {
+		this.storage = context.storage ?? new MemoryStorage();
+	}
+
+	open(asset: string, amount: bigint): Promise<ChannelFlowResult> {
+		return this.start({ kind: "open", key: `open:${asset.toLowerCase()}`, asset, amount, completed: [], txHashes: [] });
+	}
+
+	topUp(channelId: ChannelId, amount: bigint): Promise<ChannelFlowResult> {
+		return this.start({ kind: "topUp", key: `topUp:${channelId}`, channelId, amount, completed: [], txHashes: [] });
+	}
+
+	closeAndWithdraw(channelId: ChannelId): Promise<ChannelFlowResult> {
+		return this.start({ kind: "close", key: `close:${channelId}`, channelId, amount: 0n, completed: [], txHashes: [] });
+	}
+
+	async pending(): Promise<ChannelFlow[]> {
+		const flows = await Promise.all((await this.flowKeys()).map((key) => this.load(key)));
+		return flows
+			.filter((flow) => flow !== null)
+			.map(({ key: _key, operation: _operation, target: _target, custodyBalance: _custodyBalance, ...flow }) => flow);
+	}
+
+	/**
+	 * Runs every unfinished flow to completion, one after another.
+	 */
+	async resume(): Promise<ChannelFlowResult[]> {
+		const results: ChannelFlowResult[] = [];
+		for (const key of await this.flowKeys()) {
+			const flow = await this.load(key);
+			if (flow) results.push(await this.start(flow));
+		}
+		return results;
+	}
+
+	private async start(request: FlowRecord): Promise<ChannelFlowResult> {
+		const running = this.running.get(request.key);
+		if (running) return running;
+		const result = this.load(request.key).then((saved) => {
+			// A kind without an amount (close) takes whatever was saved
+			if (saved && request.kind !== "close" && saved.amount !== request.amount) {
+				throw new Error(`A ${saved.kind} flow for ${saved.asset ?? saved.channelId} with amount ${saved.amount} is unfinished`);
+			}
+			return this.run(saved ?? request);
+		});
+		this.running.set(request.key, result);
+		try {
+			return await result;
+		} finally {
+			this.running.delete(request.key);
+		}
+	}
+
+	private async run(flow: FlowRecord): Promise<ChannelFlowResult> {
+		for (const [name, step] of this.steps(flow)) {
+			if (flow.completed.includes(name)) continue;
+			await step(flow);
+			flow.completed.push(name);
+			await this.save(flow);
+		}
+		await this.storage.delete(KEY_PREFIX + flow.key);
+		return { channelId: flow.channelId!, txHashes: flow.txHashes };
+	}
+
+	private steps(flow: FlowRecord): Step[] {
+		const resize: Step[] = [
+			["resize_channel", (flow) => this.requestResize(flow)],
+			["resizeChannel", (flow) => this.resizeOnChain(flow)],
+		];
+		switch (flow.kind) {
+			case "open":
+				// The clearnode opens channels empty; the deposit is moved in with a resize
+				return [
+					["create_channel", (flow) => this.requestCreate(flow)],
+					["depositAndCreateChannel", (flow) => this.createOnChain(flow)],
+					...(flow.amount > 0n ? resize : []),
+				];
+			case "topUp":
+				return [
+					[
+						"deposit",
+						async (flow) => {
+							if (await this.landed(flow, "deposit")) return;
+							flow.txHashes.push(await this.client.deposit(flow.amount, await this.targetOf(flow)));
+						},
+					],
+					...resize,
+				];
+			case "close":
+				return [
+					["close_channel", (flow) => this.requestClose(flow)],
+					["closeChannel", (flow) => this.closeOnChain(flow)],
+					[
+						"withdrawal",
+						async (flow) => {
+							if (flow.amount === 0n || (await this.landed(flow, "withdrawal"))) return;
+							flow.txHashes.push(await this.client.withdrawal(flow.amount, await this.targetOf(flow)));
+						},
+					],
+				];
+		}
+	}
+
+	private async requestCreate(flow: FlowRecord): Promise<void> {
+		const chainId = this.context.chainId();
+		const { assets } = await this.client.call(RPCMethod.GetAssets, { chain_id: chainId });
+		const asset = assets.find((a) => a.symbol.toLowerCase() === flow.asset!.toLowerCase() && (chainId === undefined || a.chainId === chainId));
+		if (!asset) {
+			throw new Error(`Unknown asset: ${flow.asset}`);
+		}
+		flow.operation = await this.client.call(RPCMethod.CreateChannel, { chain_id: asset.chainId, token: asset.token });
+		flow.channelId = flow.operation.channelId;
+		flow.target = { chainId: asset.chainId, token: asset.token };
+	}
+
+	private async createOnChain(flow: FlowRecord): Promise<void> {
+		if (await this.isOnChain(flow)) return;
+		const params = toCreateChannelParams(flow.operation!);
+		const target = await this.targetOf(flow);
+		// The deposit half may have landed without the channel
+		if (await this.landed(flow, "deposit")) {
+			const { txHash } = await this.client.createChannel(params, target);
+			flow.txHashes.push(txHash);
+			return;
+		}
+		const { depositTxHash, createChannelTxHash } = await this.client.depositAndCreateChannel(flow.amount, params, target);
+		flow.txHashes.push(depositTxHash, createChannelTxHash);
+	}
+
+	private async requestResize(flow: FlowRecord): Promise<void> {
+		flow.operation = await this.client.call(RPCMethod.ResizeChannel, {
+			channel_id: flow.channelId!,
+			resize_amount: flow.amount,
+			funds_destination: this.account(),
+		});
+	}
+
+	private async resizeOnChain(flow: FlowRecord): Promise<void> {
+		const target = await this.targetOf(flow);
+		// The resize is proven by the state it follows: the latest recorded one, or else the last one on-chain
+		const previous =
+			(await this.client.channelStore?.latest(flow.channelId!)) ??
+			(await this.client.getChannelData(flow.channelId!, target)).lastValidState;
+		const txHash = await this.client.resizeChannel(
+			{
+				resizeState: toFinalState(flow.operation!),
+				proofStates: [previous],
+			},
+			target
+		);
+		flow.txHashes.push(txHash);
+	}
+
+	private async requestClose(flow: FlowRecord): Promise<void> {
+		const account = this.account();
+		flow.operation = await this.client.call(RPCMethod.CloseChannel, { channel_id: flow.channelId!, funds_destination: account });
+		flow.amount = flow.operation.state.allocations
+			.filter((allocation) => allocation.destination.toLowerCase() === account.toLowerCase())
+			.reduce((total, allocation) => total + BigInt(allocation.amount), 0n);
+	}
+
+	private async closeOnChain(flow: FlowRecord): Promise<void> {
+		if (!(await this.isOnChain(flow))) return;
+		const txHash = await this.client.closeChannel(
+			{
+				finalState: toFinalState(flow.operation!),
+				stateData: flow.operation!.state.stateData,
+			},
+			await this.targetOf(flow)
+		);
+		flow.txHashes.push(txHash);
+	}
+
+	/**
+	 * Whether a deposit or withdrawal of the flow's amount sent by an earlier run landed, judged by the custody
+	 * balance saved before it was sent. Otherwise saves the current balance for the next run to compare with.
+	 */
+	private async landed(flow: FlowRecord, direction: "deposit" | "withdrawal"): Promise<boolean> {
+		const balance = await this.client.getAccountBalance(await this.targetOf(flow));
+		const before = flow.custodyBalance;
+		if (before !== undefined && (direction === "deposit" ? balance >= before + flow.amount : balance <= before - flow.amount)) {
+			return true;
+		}
+		flow.custodyBalance = balance;
+		await this.save(flow);
+		return false;
+	}
+
+	private async isOnChain(flow: FlowRecord): Promise<boolean> {
+		const channels = await this.client.getAccountChannels(await this.targetOf(flow));
+		return channels.some((id) => String(id).toLowerCase() === String(flow.channelId).toLowerCase());
+	}
+
+	/**
+	 * Chain and token of the flow's channel: the asset found by an open flow, otherwise looked up with get_channels.
+	 */
+	private async targetOf(flow: FlowRecord): Promise<ChainToken> {
+		if (flow.target) return flow.target;
+		const { channels } = await this.client.call(RPCMethod.GetChannels, { participant: this.account() });
+		const channel = channels.find((c) => c.channelId.toLowerCase() === String(flow.channelId).toLowerCase());
+		if (!channel) {
+			throw new Error(`Unknown channel: ${flow.channelId}`);
+		}
+		flow.target = { chainId: channel.chainId, token: channel.token };
+		await this.save(flow);
+		return flow.target;
+	}
+
+	private account(): Address {
+		const account = this.context.account();
+		if (!account) {
+			throw new Error("No wallet address to receive channel funds: authenticate or configure nitrolite");
+		}
+		return account;
+	}
+
+	private async flowKeys(): Promise<string[]> {
+		return (await this.storage.keys()).filter((key) => key.startsWith(KEY_PREFIX)).map((key) => key.slice(KEY_PREFIX.length));
+	}
+
+	private async load(key: string): Promise<FlowRecord | null> {
+		const json = await this.storage.get(KEY_PREFIX + key);
+		return json === undefined ? null : parseWithBigInt<FlowRecord>(json);
+	}
+
+	private save(flow: FlowRecord): Promise<void> {
+		return this.storage.set(KEY_PREFIX + flow.key, stringifyWithBigInt(flow));
+	}
+}
+
+function toCreateChannelParams(operation: RPCChannelOperation & { channel?: RPCChannel }): CreateChannelParams {
+	const channel = operation.channel!;
+	return {
+		channel: {
+			participants: channel.participants,
+			adjudicator: channel.adjudicator,
+			challenge: BigInt(channel.challenge),
+			nonce: BigInt(channel.nonce),
+		},
+		unsignedInitialState: {
+			intent: operation.state.intent,
+			version: BigInt(operation.state.version),
+			data: operation.state.stateData,
+			allocations: operation.state.allocations,
+		},
+		serverSignature: operation.serverSignature,
+	};
+}
+
+function toFinalState(operation: RPCChannelOperation) {
+	return {
+		channelId: operation.channelId,
+		intent: operation.state.intent,
+		version: BigInt(operation.state.version),
+		data: operation.state.stateData,
+		allocations: operation.state.allocations,
+		serverSignature: operation.serverSignature,
+	};
+}
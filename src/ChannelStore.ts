@@ -0,0 +1,172 @@
+import {
+	StateIntent,
+	getPackedState,
+	type ChallengeChannelParams,
+	type ChannelId,
+	type CheckpointChannelParams,
+	type State,
+} from "@erc7824/nitrolite";
+import { keccak256, recoverAddress, recoverMessageAddress, type Address, type Hex } from "viem";
+import { InvalidStateError, StateNotFoundError } from "./errors";
+import { MemoryStorage, parseWithBigInt, stringifyWithBigInt, type KeyValueStorage } from "./storage";
+
+export type ChannelStoreOptions = {
+	/**
+	 * Where signed states are persisted. Defaults to MemoryStorage.
+	 */
+	storage?: KeyValueStorage;
+	/**
+	 * Number of states kept per channel; older ones are dropped once a newer state is recorded.
+	 * Defaults to Infinity (full history).
+	 */
+	maxHistory?: number;
+};
+
+type ChannelRecord = {
+	participants: Address[];
+	states: State[];
+};
+
+const KEY_PREFIX = "channel:";
+
+/**
+ * History of the signed states of each channel, the evidence needed to checkpoint or answer a challenge on-chain.
+ * Every recorded state must be newer than the latest one and signed only by channel participants,
+ * either as an EIP-191 message (wallet signers) or as a raw ECDSA signature (session key signers).
+ */
+export class ChannelStore {
+	private readonly storage: KeyValueStorage;
+	private readonly maxHistory: number;
+	private writing: Promise<unknown> = Promise.resolve();
+
+	constructor(options?: ChannelStoreOptions) {
+		this.storage = options?.storage ?? new MemoryStorage();
+		this.maxHistory = options?.maxHistory ?? Infinity;
+	}
+
+	/**
+	 * Registers a channel and the participants whose signatures are accepted on its states.
+	 */
+	async track(channelId: ChannelId, participants: Address[]): Promise<void> {
+		await this.exclusive(async () => {
+			const record = await this.load(channelId);
+			await this.save(channelId, { participants, states: record?.states ?? [] });
+		});
+	}
+
+	/**
+	 * Appends a signed state to the channel history. Recording the latest state again is a no-op,
+	 * unless it carries more signatures (e.g. now countersigned), in which case it replaces the latest state.
+	 * @param participants Registers the channel first when it is not tracked yet.
+	 * @throws InvalidStateError when the version is not newer than the latest state or a signature is invalid
+	 */
+	async record(channelId: ChannelId, state: State, participants?: Address[]): Promise<void> {
+		await this.exclusive(async () => {
+			const record = (await this.load(channelId)) ?? (participants ? { participants, states: [] } : null);
+			if (!record) {
+				throw new InvalidStateError(channelId, "channel is not tracked; pass its participants");
+			}
+			const latest = record.states[record.states.length - 1];
+			const replacesLatest = latest !== undefined && getPackedState(channelId, latest) === getPackedState(channelId, state);
+			if (replacesLatest && state.sigs.length <= latest.sigs.length) return;
+			if (!replacesLatest && latest && BigInt(state.version) <= BigInt(latest.version)) {
+				throw new InvalidStateError(channelId, `version ${state.version} is not newer than ${latest.version}`);
+			}
+			await verifySignatures(channelId, state, record.participants);
+			const previous = replacesLatest ? record.states.slice(0, -1) : record.states;
+			const states = [...previous, state].slice(-this.maxHistory);
+			await this.save(channelId, { participants: record.participants, states });
+		});
+	}
+
+	async latest(channelId: ChannelId): Promise<State | undefined> {
+		const states = (await this.load(channelId))?.states;
+		return states?.[states.length - 1];
+	}
+
+	/**
+	 * Recorded states of the channel, oldest first.
+	 */
+	async history(channelId: ChannelId): Promise<State[]> {
+		return (await this.load(channelId))?.states ?? [];
+	}
+
+	async participants(channelId: ChannelId): Promise<Address[] | undefined> {
+		return (await this.load(channelId))?.participants;
+	}
+
+	async channels(): Promise<ChannelId[]> {
+		return (await this.storage.keys()).filter((key) => key.startsWith(KEY_PREFIX)).map((key) => key.slice(KEY_PREFIX.length));
+	}
+
+	async remove(channelId: ChannelId): Promise<void> {
+		await this.exclusive(() => this.storage.delete(KEY_PREFIX + channelId));
+	}
+
+	/**
+	 * Challenge parameters backed by the latest state. A resize state is proven by the state it follows.
+	 * @throws StateNotFoundError when no state of the channel is recorded
+	 */
+	async challengeParams(channelId: ChannelId): Promise<ChallengeChannelParams> {
+		return this.candidate(channelId);
+	}
+
+	async checkpointParams(channelId: ChannelId): Promise<CheckpointChannelParams> {
+		return this.candidate(channelId);
+	}
+
+	private async candidate(channelId: ChannelId): Promise<{ channelId: ChannelId; candidateState: State; proofStates: State[] }> {
+		const states = await this.history(channelId);
+		const candidateState = states[states.length - 1];
+		if (!candidateState) {
+			throw new StateNotFoundError(channelId);
+		}
+		const previous = states[states.length - 2];
+		const proofStates = candidateState.intent === StateIntent.RESIZE && previous ? [previous] : [];
+		return { channelId, candidateState, proofStates };
+	}
+
+	private async load(channelId: ChannelId): Promise<ChannelRecord | null> {
+		const json = await this.storage.get(KEY_PREFIX + channelId);
+		return json === undefined ? null : parseWithBigInt<ChannelRecord>(json);
+	}
+
+	private save(channelId: ChannelId, record: ChannelRecord): Promise<void> {
+		return this.storage.set(KEY_PREFIX + channelId, stringifyWithBigInt(record));
+	}
+
+	// Read-modify-write cycles run one at a time so concurrent records can't lose states
+	private exclusive<T>(run: () => Promise<T>): Promise<T> {
+		const result = this.writing.then(run);
+		this.writing = result.catch(() => undefined);
+		return result;
+	}
+}
+
+async function verifySignatures(channelId: ChannelId, state: State, participants: Address[]): Promise<void> {
+	if (state.sigs.length === 0) {
+		throw new InvalidStateError(channelId, "state is not signed");
+	}
+	const packed = getPackedState(channelId, state);
+	const expected = new Set(participants.map((participant) => participant.toLowerCase()));
+	const signers = new Set<string>();
+	for (const signature of state.sigs as Hex[]) {
+		const signer = (await recoverSigners(packed, signature)).find((address) => expected.has(address));
+		if (!signer) {
+			throw new InvalidStateError(channelId, `signature ${signature.slice(0, 10)}… is not from a participant`);
+		}
+		if (signers.has(signer)) {
+			throw new InvalidStateError(channelId, `duplicate signature from ${signer}`);
+		}
+		signers.add(signer);
+	}
+}
+
+// Wallet signers sign the packed state as an EIP-191 message, session key signers its raw hash
+async function recoverSigners(packed: Hex, signature: Hex): Promise<string[]> {
+	const candidates = await Promise.all([
+		recoverMessageAddress({ message: { raw: packed }, signature }).catch(() => null),
+		recoverAddress({ hash: keccak256(packed), signature }).catch(() => null),
+	]);
+	return candidates.filter((address) => address !== null).map((address) => address.toLowerCase());
+}
@@ -1,8 +1,15 @@
-import { ExponentialBackoff, Websocket, WebsocketBuilder } from "websocket-ts";
 import {
 	NitroliteClient,
 	RPCMethod,
+	StateIntent,
 	parseRPCResponse,
+	createAuthRequestMessage,
+	createAuthVerifyMessageFromChallenge,
+	createAuthVerifyMessageWithJWT,
+	createEIP712AuthMessageSigner,
+	type MessageSigner,
+	type RPCAllowance,
+	type RPCResponse,
 	type CreateChannelParams,
 	type CheckpointChannelParams,
 	type ChallengeChannelParams,
@@ -11,11 +18,68 @@ import {
 	type ChannelId,
 	type State,
 	type Hash,
-	type AccountInfo,
-	type NitroliteClientConfig
+	type ChannelData,
+	type NitroliteClientConfig,
+	type PreparedTransaction
 } from "@erc7824/nitrolite";
 
 import * as nitrolite from "@erc7824/nitrolite";
+import { isAddress, type Address, type WalletClient } from "viem";
+import {
+	AuthError,
+	AuthExpiredError,
+	AuthRejectedError,
+	ChainTransactionError,
+	DisconnectedError,
+	NotConfiguredError,
+	QueueDeadlineError,
+	QueueOverflowError,
+	RpcError,
+	TimeoutError,
+} from "./errors";
+import { TypedEmitter, type EventListener } from "./TypedEmitter";
+import { Subscription, type SubscriptionOptions } from "./Subscription";
+import { AppSession, type CreateAppSessionParams } from "./AppSession";
+import {
+	formatAllocation,
+	toAssetDecimals,
+	toLedgerBalance,
+	toLedgerEntry,
+	toLedgerTransaction,
+	type GetLedgerEntriesParams,
+	type GetLedgerTransactionsParams,
+	type LedgerBalance,
+	type LedgerEntry,
+	type LedgerTransaction,
+	type TransferParams,
+} from "./ledger";
+import { EndpointPool, type EndpointHealth, type FailoverOptions } from "./EndpointPool";
+import { Heartbeat, type HeartbeatOptions, type LatencyStats } from "./Heartbeat";
+import { DEFAULT_IDEMPOTENT_METHODS, resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry";
+import type { ChannelStore } from "./ChannelStore";
+import { ChannelLifecycle, type ChannelFlow, type ChannelFlowResult } from "./ChannelLifecycle";
+import type { KeyValueStorage } from "./storage";
+import { NitroliteRegistry, type ChainToken, type NitroliteChainConfig, type NitroliteTarget } from "./NitroliteRegistry";
+import { TransactionHandle, type TransactionPublicClient, type WaitForOptions } from "./TransactionHandle";
+import { allocatedTo, moveFunds, resizeDelta, toPreview, type BalanceChange, type TransactionPreview } from "./prepare";
+import { MiddlewareChain, frameContext, type Middleware } from "./middleware";
+import { METRICS, noopLogger, noopMetrics, type Logger, type Metrics } from "./logger";
+import { WebSocketTransport, type Transport } from "./transport";
+import { ReconnectingSocket } from "./ReconnectingSocket";
+import type {
+	AppSessionUpdateParams,
+	BalanceUpdateParams,
+	ChannelUpdateParams,
+	ChannelsUpdateParams,
+	RPCAsset,
+	RPCCallArgs,
+	RPCCallMethod,
+	RPCNotificationMap,
+	RPCNotificationMethod,
+	RPCParams,
+	RPCResult,
+	TransferNotificationParams,
+} from "./rpc";
 
 export type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
 
@@ -29,6 +93,16 @@ export type ClientOptions = {
 	 * Optional websocket URL. Defaults to Yellow clearnet endpoint.
 	 */
 	url?: string;
+	/**
+	 * Websocket URLs in priority order, the first being the primary endpoint. Takes precedence over `url`.
+	 * The client fails over to the next healthy endpoint when the current one keeps failing,
+	 * and returns to a higher-priority endpoint on a later reconnect once it is healthy again.
+	 */
+	urls?: string[];
+	/**
+	 * When an endpoint counts as failing and how long it stays out of rotation.
+	 */
+	failover?: FailoverOptions;
 	/**
 	 * Request timeout in milliseconds.
 	 * Individual request Promises will reject after this duration if no response arrives.
@@ -36,7 +110,8 @@ export type ClientOptions = {
 	 */
 	requestTimeoutMs?: number;
 	/**
-	 * Exponential backoff settings for reconnects.
+	 * Exponential backoff settings for reconnects: the delay starts at `initialDelayMs` and doubles after every
+	 * failed attempt, up to `maxDelayMs`.
 	 * Defaults: initial 1000ms, max 30000ms.
 	 */
 	backoff?: {
@@ -48,15 +123,231 @@ export type ClientOptions = {
 	 * If provided, enables all nitrolite methods (deposit, createChannel, etc.).
 	 */
 	nitrolite?: NitroliteClientConfig;
+	/**
+	 * Token of the `nitrolite` chain that the token methods (deposit, withdrawal, approvals and balances) use
+	 * when called without a target.
+	 */
+	token?: Address;
+	/**
+	 * Builds the NitroliteClient of `nitrolite` and those of `chains`. Defaults to `new NitroliteClient(config)`;
+	 * tests can return a fake instead of talking to a chain.
+	 */
+	createNitroliteClient?: (config: NitroliteClientConfig) => NitroliteClient;
+	/**
+	 * Wallet and RPC clients per chain id, for on-chain operations on several chains and tokens from one client.
+	 * Custody, adjudicator and token addresses are taken from the clearnode `get_config` and `get_assets` responses,
+	 * and the on-chain methods select a chain and token with their `target` argument.
+	 */
+	chains?: Record<number, NitroliteChainConfig>;
+	/**
+	 * Signer attached to every request built by `request` and `call`, typically a session key
+	 * (e.g. `createECDSAMessageSigner(sessionPrivateKey)` from nitrolite).
+	 * Without a signer requests are sent with an empty `sig` array.
+	 */
+	signer?: MessageSigner;
+	/**
+	 * Opt-in offline queue. When set, requests issued while disconnected (or re-authenticating) are buffered
+	 * and flushed in order once the socket reopens, instead of waiting on `connect()`.
+	 * In-flight requests marked `idempotent` are re-queued on disconnect rather than rejected.
+	 */
+	queue?: {
+		/**
+		 * Maximum number of buffered requests. Further requests reject with QueueOverflowError.
+		 * Defaults to 100.
+		 */
+		maxSize?: number;
+		/**
+		 * How long a request may wait in the queue before rejecting with QueueDeadlineError.
+		 * Defaults to requestTimeoutMs.
+		 */
+		deadlineMs?: number;
+	};
+	/**
+	 * Client-wide retry policy for idempotent requests. Pass `false` to make a single attempt.
+	 * Defaults to 3 attempts with jittered exponential backoff, retrying on TimeoutError and DisconnectedError.
+	 */
+	retry?: RetryPolicy | false;
+	/**
+	 * Methods treated as idempotent unless a request says otherwise.
+	 * Defaults to the read-only methods (get_config, get_channels, get_ledger_balances, ...); transfer is never included.
+	 */
+	idempotentMethods?: string[];
+	/**
+	 * Opt-in application-level keepalive. The client pings the clearnode on an interval and forces a reconnect
+	 * after `maxMissed` consecutive pongs fail to arrive, which catches half-open connections the socket never reports.
+	 */
+	heartbeat?: HeartbeatOptions;
+	/**
+	 * Records the signed states of channels created, checkpointed or challenged through this client,
+	 * and supplies the latest state when `checkpointChannel` or `challengeChannel` is called with only a channel id.
+	 */
+	channelStore?: ChannelStore;
+	/**
+	 * Where `openChannel`, `topUp` and `closeAndWithdraw` save their progress so interrupted flows can be resumed.
+	 * Defaults to MemoryStorage, which only survives within the process.
+	 */
+	channelFlowStorage?: KeyValueStorage;
+	/**
+	 * Receives unparseable frames, listener and middleware errors, and connection diagnostics.
+	 * Defaults to a no-op logger, so the client writes nothing to the console; see `consoleLogger`.
+	 */
+	logger?: Logger;
+	/**
+	 * Receives request latencies, timeouts, reconnects, the pending-request count and frames per method (see METRICS).
+	 */
+	metrics?: Metrics;
+	/**
+	 * Opens the client's sockets; the client reconnects with backoff on top of it, opening a new socket per attempt.
+	 * Use NodeTransport for custom headers or proxy agents, MemoryTransport in tests, SharedWorkerTransport to keep
+	 * sockets in a browser SharedWorker, or ReplayTransport to play back a recorded session.
+	 * Defaults to WebSocketTransport: the global WebSocket, or the `ws` package where there is none. The client never assigns globals.
+	 */
+	transport?: Transport;
+};
+
+export type RequestOptions = {
+	/**
+	 * Marks the request as safe to send more than once. Defaults to whether the method is in `idempotentMethods`.
+	 * Idempotent requests are retried under the retry policy, and in queue mode are re-queued instead of rejected
+	 * when in flight at disconnect.
+	 */
+	idempotent?: boolean;
+	/**
+	 * Retry policy for this request, merged over the client-wide one. Pass `false` to make a single attempt.
+	 * Only applies to idempotent requests.
+	 */
+	retry?: RetryPolicy | false;
+	/**
+	 * Signers for this request, replacing the client signer.
+	 * Used for multi-party requests that need a quorum of participant signatures.
+	 */
+	signers?: MessageSigner[];
+};
+
+export type AuthenticateParams = {
+	/**
+	 * Wallet client of the main account. Signs the EIP-712 auth challenge.
+	 */
+	signer: WalletClient;
+	/**
+	 * Address of the session key the clearnode will accept request signatures from.
+	 */
+	sessionKey: Address;
+	/**
+	 * Spending allowances granted to the session key.
+	 */
+	allowances: RPCAllowance[];
+	/**
+	 * Scope of the session, e.g. "app.create".
+	 */
+	scope: string;
+	/**
+	 * Session expiry as a unix timestamp in seconds.
+	 */
+	expiresAt: number | bigint;
+	/**
+	 * Application name, also used as the EIP-712 domain name. Defaults to "yellow-ts".
+	 */
+	application?: string;
+};
+
+export type AuthSession = {
+	address: Address;
+	sessionKey: Address;
+	jwtToken?: string;
+	expiresAt: bigint;
+};
+
+/**
+ * The account's funds of one token in the custody contract.
+ */
+export type AccountInfo = {
+	/** Deposited funds not locked in a channel */
+	available: bigint;
+	/** Funds locked in the account's open channels */
+	locked: bigint;
+	channelCount: number;
+};
+
+/**
+ * Lifecycle of the client connection:
+ * - "idle": not connected yet
+ * - "connecting": `connect()` is opening the socket
+ * - "open": the socket is open without a clearnode session
+ * - "authenticating": the auth handshake (or re-authentication after a reconnect) is running
+ * - "ready": the socket is open and authenticated
+ * - "reconnecting": the socket dropped and the client is reconnecting with backoff
+ * - "closed": `disconnect()` was called; no further reconnects happen until `connect()`
+ */
+export type ConnectionState = "idle" | "connecting" | "open" | "authenticating" | "ready" | "reconnecting" | "closed";
+
+export type ClientEvents = {
+	/**
+	 * The connection moved to a new state.
+	 */
+	stateChange: { previous: ConnectionState; state: ConnectionState };
+	/**
+	 * A reconnect attempt is starting after the socket dropped and the backoff of `delayMs` elapsed.
+	 */
+	reconnecting: { attempt: number; delayMs: number };
+	/**
+	 * The session was restored on a fresh socket after a reconnect.
+	 */
+	reauthenticated: AuthSession;
+	/**
+	 * The clearnode pushed updated ledger balances.
+	 */
+	balanceUpdate: BalanceUpdateParams;
+	/**
+	 * The clearnode pushed the full list of the account's channels.
+	 */
+	channelsUpdate: ChannelsUpdateParams;
+	/**
+	 * The clearnode pushed an update for a single channel.
+	 */
+	channelUpdate: ChannelUpdateParams;
+	/**
+	 * The clearnode notified an incoming or outgoing transfer.
+	 */
+	transfer: TransferNotificationParams;
+	/**
+	 * The clearnode pushed a new state of an app session the account participates in.
+	 */
+	appSessionUpdate: AppSessionUpdateParams;
+	/**
+	 * Failures not tied to a specific request: unparseable frames, uncorrelated error frames,
+	 * failed re-authentication and reconnect attempts that could not open a socket.
+	 */
+	error: Error;
+	/**
+	 * A heartbeat pong arrived; `rttMs` is the ping round-trip time.
+	 */
+	latency: { rttMs: number };
+	/**
+	 * A connection opened to a different endpoint than the previous one.
+	 */
+	endpointChange: { previous: string | null; url: string };
 };
 
 type Pending = {
 	resolve: (value: any) => void;
 	reject: (reason?: any) => void;
 	timer: ReturnType<typeof setTimeout> | null;
+	data: string;
+	idempotent: boolean;
+};
+
+type Queued = {
+	id?: number | string;
+	data: string;
+	idempotent: boolean;
+	resolve: (value: any) => void;
+	reject: (reason?: any) => void;
+	timer: ReturnType<typeof setTimeout> | null;
 };
 
 const DEFAULT_URL = "wss://clearnet.yellow.com/ws";
+const DEFAULT_APPLICATION = "yellow-ts";
 
 export class Client {
 	private url: string;
@@ -64,18 +355,46 @@ export class Client {
 		url: string;
 		requestTimeoutMs: number;
 		backoff: { initialDelayMs: number; maxDelayMs: number };
+		queue: { maxSize: number; deadlineMs: number } | null;
+		retry: RetryPolicy | false | undefined;
+		idempotentMethods: Set<string>;
+		nitrolite: NitroliteClientConfig | undefined;
+		token: Address | undefined;
 	};
-	private ws: Websocket | null = null;
-	private isConnecting = false;
-	private isConnected = false;
+	private ws: ReconnectingSocket | null = null;
+	private connectionState: ConnectionState = "idle";
 	private nextId = 1;
 	private pendingById: Map<number | string, Pending> = new Map();
 	private listeners: Array<{ event?: string; callback: Function }> = [];
 	private nitroliteClient?: NitroliteClient;
-	private builder: WebsocketBuilder;
+	private transport: Transport;
+	private logger: Logger;
+	private metrics: Metrics;
+	private events = new TypedEmitter<ClientEvents>((error) => this.logger.warn("Listener error", { error }));
+	private authParams: AuthenticateParams | null = null;
+	private authSession: AuthSession | null = null;
+	private reauthentication: Promise<void> | null = null;
+	private queue: Queued[] = [];
+	private signer: MessageSigner | null;
+	private subscriptions: Set<Subscription<any>> = new Set();
+	private assetDecimals: Promise<Map<string, number>> | null = null;
+	private heartbeat: Heartbeat | null = null;
+	private endpoints: EndpointPool;
+	private connectedUrl: string | null = null;
+	/**
+	 * Counts the dropped connections, so a frame built for one connection is never sent on the next.
+	 */
+	private connection = 0;
+	private attemptStartedAt = 0;
+	private stateStore: ChannelStore | null;
+	private lifecycle: ChannelLifecycle;
+	private registry: NitroliteRegistry | null = null;
+	private middleware: MiddlewareChain;
 
 	constructor(options?: ClientOptions) {
-		this.url = options?.url ?? DEFAULT_URL;
+		const urls = options?.urls?.length ? options.urls : [options?.url ?? DEFAULT_URL];
+		this.url = urls[0];
+		this.endpoints = new EndpointPool(urls, options?.failover);
 		this.options = {
 			url: this.url,
 			requestTimeoutMs: options?.requestTimeoutMs ?? 30_000,
@@ -83,88 +402,280 @@ export class Client {
 				initialDelayMs: options?.backoff?.initialDelayMs ?? 1_000,
 				maxDelayMs: options?.backoff?.maxDelayMs ?? 30_000,
 			},
-		} as any; // Cast to any to allow nitrolite property
+			queue: options?.queue
+				? {
+						maxSize: options.queue.maxSize ?? 100,
+						deadlineMs: options.queue.deadlineMs ?? options?.requestTimeoutMs ?? 30_000,
+					}
+				: null,
+			retry: options?.retry,
+			idempotentMethods: new Set(options?.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS),
+			nitrolite: options?.nitrolite,
+			token: options?.token,
+		};
+
+		this.logger = options?.logger ?? noopLogger;
+		this.metrics = options?.metrics ?? noopMetrics;
+		this.middleware = new MiddlewareChain(this.logger);
+		this.transport = options?.transport ?? new WebSocketTransport();
+		this.signer = options?.signer ?? null;
+		this.stateStore = options?.channelStore ?? null;
+		this.lifecycle = new ChannelLifecycle(this, {
+			storage: options?.channelFlowStorage,
+			account: () => this.authSession?.address ?? this.options.nitrolite?.walletClient?.account?.address,
+			chainId: () => this.options.nitrolite?.chainId,
+		});
 
-		// Store nitrolite config separately
-		(this.options as any).nitrolite = options?.nitrolite;
+		const createNitroliteClient = options?.createNitroliteClient ?? ((config) => new NitroliteClient(config));
 
 		// Initialize nitrolite client if configuration is provided
 		if (options?.nitrolite) {
-			this.nitroliteClient = new NitroliteClient(options.nitrolite);
+			this.nitroliteClient = createNitroliteClient(options.nitrolite);
 		}
 
-		this.builder = new WebsocketBuilder(this.url)
-			.withBackoff(
-				new ExponentialBackoff(
-					this.options.backoff.initialDelayMs,
-					this.options.backoff.maxDelayMs
-				)
-			)
-			.onOpen((ws: Websocket, ev: Event) => {
-				this.ws = ws;
-				this.isConnected = true;
-			})
-			.onClose((ws: Websocket, ev: CloseEvent) => {
-				this.isConnected = false;
-				this.ws = null;
-				// Reject in-flight requests on disconnect
-				for (const [id, pending] of this.pendingById.entries()) {
-					pending.timer && clearTimeout(pending.timer);
-					pending.reject(new Error("Disconnected"));
-					this.pendingById.delete(id);
-				}
-			})
-			.onMessage((ws: Websocket, ev: MessageEvent) => {
-				this.handleMessage(ev.data);
-			})
-			.onError((ws: Websocket, ev: Event) => {
-				// Let consumer handle by awaiting connect/request rejections
-				// No-op here to avoid unhandled errors bubbling
-				void ev;
+		if (options?.chains) {
+			this.registry = new NitroliteRegistry(
+				options.chains,
+				async () => {
+					const [{ networks }, { assets }] = await Promise.all([
+						this.call(RPCMethod.GetConfig),
+						this.call(RPCMethod.GetAssets),
+					]);
+					return { networks, assets };
+				},
+				createNitroliteClient
+			);
+		}
+
+		if (options?.heartbeat) {
+			this.heartbeat = new Heartbeat(options.heartbeat, {
+				ping: (timeoutMs) => this.ping(timeoutMs),
+				onLatency: (rttMs) => {
+					this.connectedUrl && this.endpoints.recordLatency(this.connectedUrl, rttMs);
+					this.events.emit("latency", { rttMs });
+				},
+				onDead: () => this.forceReconnect(),
 			});
+		}
 	}
 
 	async connect(): Promise<void> {
-		if (this.isConnected) return;
-		if (this.isConnecting) {
+		if (this.connectionState !== "idle" && this.connectionState !== "closed") {
 			// Wait until open or timeout to avoid racing multiple connects
-			await this.waitUntilOpen(this.options.requestTimeoutMs);
-			return;
+			return this.ready();
 		}
-		this.isConnecting = true;
+		this.setState("connecting");
 		try {
-			// Ensure WebSocket is available in Node by polyfilling with 'ws'
-			if (typeof (globalThis as any).WebSocket === "undefined") {
-				try {
-					const wsMod = await import("ws");
-					// Prefer named export WebSocket; fallback to default export for older versions
-					(globalThis as any).WebSocket = (wsMod as any).WebSocket ?? (wsMod as any).default ?? (wsMod as any);
-				} catch {
-					// If polyfill fails, continue; browser environments should already provide WebSocket
-				}
+			// e.g. the default transport loads the ws package in Node
+			await this.transport.prepare?.();
+			if (this.state !== "connecting") {
+				// disconnect() was called while the transport was preparing
+				throw new DisconnectedError();
 			}
-			// build() returns a Websocket instance and immediately attempts connection
-			this.ws = this.builder.build();
-			await this.waitUntilOpen(this.options.requestTimeoutMs);
-			this.isConnected = true;
-		} finally {
-			this.isConnecting = false;
+			// The socket immediately attempts to connect
+			this.ws = this.openSocket();
+		} catch (error) {
+			this.transition("connecting", "closed");
+			throw error;
+		}
+		await this.ready();
+	}
+
+	/**
+	 * Opens the connection, reconnecting with backoff whenever it drops until `disconnect()` closes it.
+	 * The endpoint is selected again for every attempt, including reconnects.
+	 */
+	private openSocket(): ReconnectingSocket {
+		return new ReconnectingSocket(this.transport, this.options.backoff, {
+			url: () => {
+				this.attemptStartedAt = Date.now();
+				return this.endpoints.select();
+			},
+			onOpen: (url) => {
+				this.endpoints.recordSuccess(url, Date.now() - this.attemptStartedAt);
+				const previous = this.connectedUrl;
+				this.connectedUrl = url;
+				if (previous !== url) {
+					this.events.emit("endpointChange", { previous, url });
+				}
+				if (this.connectionState === "reconnecting" && this.authSession) {
+					this.setState("authenticating");
+					// Requests wait on this before being sent on the fresh socket
+					this.reauthentication = this.reauthenticate().finally(() => {
+						this.reauthentication = null;
+						this.flushQueue();
+					});
+				} else {
+					this.setState("open");
+					this.flushQueue();
+				}
+				this.heartbeat?.start();
+			},
+			onClose: (url) => {
+				this.heartbeat?.stop();
+				this.endpoints.recordFailure(url);
+				// The clearnode ties the session to the socket; credentials are kept for re-authentication
+				this.connection++;
+				this.setState("reconnecting");
+				this.rejectPending(true);
+			},
+			onRetry: (attempt, delayMs) => {
+				this.metrics.increment(METRICS.reconnects);
+				this.logger.info("Reconnecting", { attempt, delayMs });
+				this.events.emit("reconnecting", { attempt, delayMs });
+			},
+			onMessage: (data) => this.receive(data),
+			onError: (url, error) => {
+				this.endpoints.recordFailure(url);
+				this.logger.warn("Reconnect attempt failed", { url, error });
+				this.events.emit("error", error);
+			},
+		});
+	}
+
+	/**
+	 * Resolves once requests can be sent: the socket is open and any session restore after a reconnect has finished.
+	 * Waits through "connecting", "reconnecting" and "authenticating"; call `connect()` first from "idle".
+	 * @param timeoutMs Rejects with TimeoutError after this long; 0 waits indefinitely. Defaults to requestTimeoutMs.
+	 * @throws DisconnectedError if the client is or becomes closed
+	 */
+	ready(timeoutMs: number = this.options.requestTimeoutMs): Promise<void> {
+		const state = this.connectionState;
+		// An explicit authenticate() call does not hold back other requests; a session restore does
+		if (state === "open" || state === "ready" || (state === "authenticating" && !this.reauthentication)) {
+			return Promise.resolve();
 		}
+		if (state === "closed") return Promise.reject(new DisconnectedError());
+		return new Promise<void>((resolve, reject) => {
+			const timer =
+				timeoutMs > 0
+					? setTimeout(() => {
+							unsubscribe();
+							reject(new TimeoutError("Connect timed out", timeoutMs));
+						}, timeoutMs)
+					: null;
+			const unsubscribe = this.events.on("stateChange", ({ state }) => {
+				if (state !== "open" && state !== "ready" && state !== "closed") return;
+				unsubscribe();
+				timer && clearTimeout(timer);
+				if (state === "closed") {
+					reject(new DisconnectedError());
+				} else {
+					resolve();
+				}
+			});
+		});
+	}
+
+	/**
+	 * URL of the endpoint the client last connected to, or null before the first connection.
+	 */
+	get endpoint(): string | null {
+		return this.connectedUrl;
 	}
 
+	/**
+	 * Health of every configured endpoint, in priority order.
+	 */
+	get endpointHealth(): EndpointHealth[] {
+		return this.endpoints.health();
+	}
+
+	/**
+	 * Current connection state.
+	 */
+	get state(): ConnectionState {
+		return this.connectionState;
+	}
+
+	/**
+	 * Closes the connection and permanently stops reconnecting, including a backoff reconnect in progress.
+	 * In-flight and queued requests reject with DisconnectedError. Call `connect()` to start over.
+	 */
 	async disconnect(code?: number, reason?: string): Promise<void> {
-		if (!this.ws) return;
-		try {
-			this.ws.close(code, reason);
-		} finally {
-			this.isConnected = false;
-			this.ws = null;
+		// Forget the session so a later connect() starts unauthenticated
+		this.authParams = null;
+		this.authSession = null;
+		this.heartbeat?.stop();
+		for (const entry of this.queue.splice(0)) {
+			entry.timer && clearTimeout(entry.timer);
+			entry.reject(new DisconnectedError({ requestId: entry.id, method: methodOf(entry.data) }));
+		}
+		for (const subscription of this.subscriptions) {
+			subscription.close();
+		}
+		const ws = this.ws;
+		this.ws = null;
+		if (this.connectionState !== "idle") {
+			this.setState("closed");
 		}
+		this.rejectPending(false);
+		// Also cancels a scheduled reconnect, even while no socket is open
+		ws?.close(code, reason);
+	}
+
+	/**
+	 * Register a listener for a client lifecycle event.
+	 * @returns A function to remove the listener.
+	 */
+	on<K extends keyof ClientEvents>(event: K, listener: EventListener<ClientEvents[K]>): () => void {
+		return this.events.on(event, listener);
+	}
+
+	/**
+	 * Register a listener that is removed after its first invocation.
+	 * @returns A function to remove the listener.
+	 */
+	once<K extends keyof ClientEvents>(event: K, listener: EventListener<ClientEvents[K]>): () => void {
+		return this.events.once(event, listener);
+	}
+
+	/**
+	 * Remove a listener registered with `on` or `once`.
+	 */
+	off<K extends keyof ClientEvents>(event: K, listener: EventListener<ClientEvents[K]>): void {
+		this.events.off(event, listener);
+	}
+
+	/**
+	 * Adds a middleware that sees every frame written to and read from the socket, and every failed request.
+	 * Middlewares can rewrite, sign, log, meter or block frames; see `loggingMiddleware` and `timingMiddleware`.
+	 * @returns A function to remove the middleware.
+	 */
+	use(middleware: Middleware): () => void {
+		return this.middleware.use(middleware);
+	}
+
+	/**
+	 * Whether the current connection holds an unexpired clearnode session.
+	 */
+	get isAuthenticated(): boolean {
+		if (this.connectionState !== "ready" || !this.authSession) return false;
+		return this.authSession.expiresAt * 1000n > BigInt(Date.now());
+	}
+
+	/**
+	 * The session established by the last successful `authenticate` call, if any.
+	 */
+	get session(): AuthSession | null {
+		return this.authSession;
+	}
+
+	/**
+	 * Round-trip times of heartbeat pings, or null until the first pong (or without `heartbeat` in ClientOptions).
+	 */
+	get latency(): LatencyStats | null {
+		return this.heartbeat?.latency ?? null;
+	}
+
+	get channelStore(): ChannelStore | null {
+		return this.stateStore;
 	}
 
 	/**
 	 * Listen for messages from the websocket.
-	 * @param event Optional event name to filter messages. If not provided, receives all messages.
+	 * For typed push notifications prefer `on("balanceUpdate" | "channelsUpdate" | "transfer" | ...)`.
+	 * @param event Optional RPC method to filter messages. If not provided, receives all messages.
 	 * @param callback Function to call when a message is received.
 	 * @returns A function to remove the listener.
 	 */
@@ -194,7 +705,314 @@ export class Client {
 		};
 	}
 
-	// ========== Nitrolite Methods ==========
+	/**
+	 * Subscribe to a server push notification as an async iterator of its parsed params.
+	 * Updates are buffered (bounded by `bufferSize`) while the consumer is busy.
+	 * The iteration ends when `signal` aborts, the loop breaks, `close()` is called on the subscription, or `disconnect()` is called.
+	 * @param method The notification method, e.g. RPCMethod.BalanceUpdate
+	 * @param options Buffering and cancellation options
+	 * @returns An async iterable subscription
+	 */
+	subscribe<M extends RPCNotificationMethod>(method: M, options?: SubscriptionOptions): Subscription<RPCNotificationMap[M]> {
+		let subscription: Subscription<RPCNotificationMap[M]> | undefined;
+		subscription = new Subscription<RPCNotificationMap[M]>((push) => {
+			const removeListener = this.listen(method, (response: RPCResponse) => push(response.params));
+			return () => {
+				removeListener();
+				subscription && this.subscriptions.delete(subscription);
+			};
+		}, options);
+		if (!subscription.closed) {
+			this.subscriptions.add(subscription);
+		}
+		return subscription;
+	}
+
+	// ========== Authentication Methods ==========
+
+	/**
+	 * Runs the clearnode session handshake: auth_request, auth_challenge, then auth_verify.
+	 * The challenge is signed with an EIP-712 signature from `signer`, after which the clearnode accepts requests signed by `sessionKey`.
+	 * The resulting session, including the JWT if one is issued, is stored on the client and exposed via `session` and `isAuthenticated`.
+	 * The client remembers the session and re-authenticates automatically whenever the socket reconnects.
+	 * @param params Authentication parameters
+	 * @returns Promise resolving to the established session
+	 * @throws AuthRejectedError if the clearnode rejects the request or the signed challenge
+	 * @throws AuthExpiredError if the requested expiry has passed or the challenge expired
+	 */
+	async authenticate(params: AuthenticateParams): Promise<AuthSession> {
+		await this.connect();
+		this.setState("authenticating");
+		try {
+			const session = await this.handshake(params);
+			this.authParams = params;
+			this.transition("authenticating", "ready");
+			return session;
+		} catch (error) {
+			this.transition("authenticating", "open");
+			throw error;
+		}
+	}
+
+	private async handshake(params: AuthenticateParams): Promise<AuthSession> {
+		const expiresAt = BigInt(params.expiresAt);
+		if (expiresAt * 1000n <= BigInt(Date.now())) {
+			throw new AuthExpiredError("Session expiry is in the past");
+		}
+		const address = params.signer.account?.address;
+		if (!address) {
+			throw new AuthError("Signer wallet client has no account");
+		}
+		const application = params.application ?? DEFAULT_APPLICATION;
+
+		const authRequest = await createAuthRequestMessage(
+			{
+				address,
+				session_key: params.sessionKey,
+				application,
+				allowances: params.allowances,
+				expires_at: expiresAt,
+				scope: params.scope,
+			},
+			this.nextId++
+		);
+		const challenge = await this.sendAuth(authRequest);
+		if (challenge.method !== RPCMethod.AuthChallenge) {
+			throw new AuthError(`Unexpected response to auth_request: ${challenge.method}`);
+		}
+
+		const eip712Signer = createEIP712AuthMessageSigner(
+			params.signer,
+			{
+				scope: params.scope,
+				session_key: params.sessionKey,
+				expires_at: expiresAt,
+				allowances: params.allowances,
+			},
+			{ name: application }
+		);
+		const authVerify = await createAuthVerifyMessageFromChallenge(
+			eip712Signer,
+			challenge.params.challengeMessage,
+			this.nextId++
+		);
+		const verified = await this.sendAuth(authVerify);
+		if (verified.method !== RPCMethod.AuthVerify || !verified.params.success) {
+			throw new AuthRejectedError("Clearnode did not accept the signed challenge");
+		}
+
+		this.authSession = {
+			address: verified.params.address,
+			sessionKey: verified.params.sessionKey,
+			jwtToken: verified.params.jwtToken,
+			expiresAt,
+		};
+		return this.authSession;
+	}
+
+	/**
+	 * Restores the remembered session on a freshly reopened socket.
+	 * Tries the JWT first and falls back to a full handshake with the original parameters.
+	 */
+	private async reauthenticate(): Promise<void> {
+		const session = this.authSession!;
+		try {
+			if (session.jwtToken) {
+				const authVerify = await createAuthVerifyMessageWithJWT(session.jwtToken, this.nextId++);
+				// A rejected token falls back to the full handshake below
+				const verified = await this.sendAuth(authVerify).catch((error) => {
+					if (error instanceof AuthError) return null;
+					throw error;
+				});
+				if (verified?.method === RPCMethod.AuthVerify && verified.params.success) {
+					this.transition("authenticating", "ready");
+					this.events.emit("reauthenticated", session);
+					return;
+				}
+			}
+			if (!this.authParams) {
+				throw new AuthRejectedError("Clearnode rejected the stored session token");
+			}
+			const restored = await this.handshake(this.authParams);
+			this.transition("authenticating", "ready");
+			this.events.emit("reauthenticated", restored);
+		} catch (error) {
+			this.transition("authenticating", "open");
+			if (error instanceof AuthError) {
+				// The credentials are no longer usable; stop retrying them on later reconnects
+				this.authParams = null;
+				this.authSession = null;
+			}
+			this.logger.error("Re-authentication failed", { error });
+			this.events.emit("error", error as Error);
+		}
+	}
+
+	// ========== App Session Methods ==========
+
+	/**
+	 * Creates an application session (virtual app) on the clearnode, funded from the participants' unified balances.
+	 * The returned AppSession tracks version and allocations, signs updates with a quorum of participant signers,
+	 * and emits `stateChange` whenever its state changes.
+	 * @param params Session definition, initial allocations and participant signers
+	 * @returns Promise resolving to the created session
+	 */
+	async createAppSession(params: CreateAppSessionParams): Promise<AppSession> {
+		return AppSession.create(this, params);
+	}
+
+	// ========== Ledger Methods ==========
+
+	/**
+	 * Retrieves the unified off-chain balances of an account, in each asset's smallest unit.
+	 * @param accountId Wallet address or app session id. Defaults to the authenticated account.
+	 * @returns Promise resolving to the balance of every asset held
+	 */
+	async getLedgerBalances(accountId?: string): Promise<LedgerBalance[]> {
+		const { ledgerBalances } = await this.call(RPCMethod.GetLedgerBalances, { account_id: accountId });
+		const decimals = await this.getAssetDecimals();
+		return ledgerBalances.map((balance) => toLedgerBalance(balance, decimals));
+	}
+
+	/**
+	 * Transfers funds from the unified balance of the authenticated account to another account, off-chain.
+	 * @param params Recipient and amounts, in each asset's smallest unit
+	 * @returns Promise resolving to the ledger transactions created by the transfer
+	 */
+	async transfer(params: TransferParams): Promise<LedgerTransaction[]> {
+		const decimals = await this.getAssetDecimals();
+		const { transactions } = await this.call(RPCMethod.Transfer, {
+			destination: params.destination,
+			destination_user_tag: params.destinationUserTag,
+			allocations: params.allocations.map((allocation) => formatAllocation(allocation, decimals)),
+		});
+		return transactions.map((transaction) => toLedgerTransaction(transaction, decimals));
+	}
+
+	/**
+	 * Retrieves the double-entry ledger records of an account.
+	 * @param params Account, asset and wallet filters
+	 * @returns Promise resolving to the ledger entries, with credit and debit in the asset's smallest unit
+	 */
+	async getLedgerEntries(params?: GetLedgerEntriesParams): Promise<LedgerEntry[]> {
+		const { ledgerEntries } = await this.call(RPCMethod.GetLedgerEntries, {
+			account_id: params?.accountId,
+			asset: params?.asset,
+			wallet: params?.wallet,
+		});
+		const decimals = await this.getAssetDecimals();
+		return ledgerEntries.map((entry) => toLedgerEntry(entry, decimals));
+	}
+
+	/**
+	 * Retrieves one page of the transaction history of an account.
+	 * Page through the history by advancing `offset` by `limit` until fewer than `limit` transactions are returned.
+	 * @param params Account, filters and pagination
+	 * @returns Promise resolving to the transactions of the page
+	 */
+	async getLedgerTransactions(params: GetLedgerTransactionsParams): Promise<LedgerTransaction[]> {
+		const { ledgerTransactions } = await this.call(RPCMethod.GetLedgerTransactions, {
+			account_id: params.accountId,
+			tx_type: params.txType,
+			asset: params.asset,
+			offset: params.offset,
+			limit: params.limit,
+			sort: params.sort,
+		});
+		const decimals = await this.getAssetDecimals();
+		return ledgerTransactions.map((transaction) => toLedgerTransaction(transaction, decimals));
+	}
+
+	/**
+	 * Decimals of the clearnode's assets, fetched once with get_assets and cached.
+	 */
+	private getAssetDecimals(): Promise<Map<string, number>> {
+		if (!this.assetDecimals) {
+			this.assetDecimals = this.call(RPCMethod.GetAssets).then(({ assets }) => toAssetDecimals(assets));
+			// Let a failed lookup be retried by the next call
+			this.assetDecimals.catch(() => (this.assetDecimals = null));
+		}
+		return this.assetDecimals;
+	}
+
+	// ========== Nitrolite Methods ==========
+
+	/**
+	 * Resolves the client of an operation: the target's through the `chains` registry, or the `nitrolite` one.
+	 * Without a registry, the `nitrolite` client serves targets on its own chain that give a token address.
+	 */
+	private async requireNitrolite(operation: string, target?: ChainToken): Promise<NitroliteTarget> {
+		if (target) {
+			if (this.registry) {
+				return this.registry.resolve(target);
+			}
+			const config = this.options.nitrolite;
+			if (!this.nitroliteClient || !config || config.chainId !== target.chainId || !isAddress(target.token)) {
+				throw new NotConfiguredError(operation);
+			}
+			return { client: this.nitroliteClient, config, token: target.token };
+		}
+		if (!this.nitroliteClient || !this.options.nitrolite) {
+			throw new NotConfiguredError(operation);
+		}
+		return { client: this.nitroliteClient, config: this.options.nitrolite, token: this.options.token };
+	}
+
+	/**
+	 * Resolves the client of an operation on a token: the target's, or else the `token` option.
+	 */
+	private async requireToken(operation: string, target?: ChainToken): Promise<NitroliteTarget & { token: Address }> {
+		const resolved = await this.requireNitrolite(operation, target);
+		if (!resolved.token) {
+			throw new NotConfiguredError(operation);
+		}
+		return { ...resolved, token: resolved.token };
+	}
+
+	/**
+	 * Fills in the latest recorded state when only a channel id is given.
+	 * @throws NotConfiguredError without a `channelStore` to look the state up in
+	 * @throws StateNotFoundError when the store has no state of the channel
+	 */
+	private async withCandidateState<T extends { channelId: ChannelId; candidateState?: State }>(
+		operation: string,
+		params: T,
+		source: "challengeParams" | "checkpointParams"
+	): Promise<T> {
+		if (params.candidateState) return params;
+		if (!this.stateStore) {
+			throw new NotConfiguredError(operation, "channelStore");
+		}
+		return { ...params, ...(await this.stateStore[source](params.channelId)) };
+	}
+
+	/**
+	 * Records a state that went on-chain. The transaction already succeeded, so a rejected state is reported
+	 * as an `error` event instead of failing the call.
+	 */
+	private async recordState(channelId: ChannelId, state: State, participants?: Address[]): Promise<void> {
+		if (!this.stateStore) return;
+		try {
+			const latest = await this.stateStore.latest(channelId);
+			// Checkpointing or challenging with an older state is legal; the history only moves forward
+			if (latest && BigInt(state.version) < BigInt(latest.version)) return;
+			await this.stateStore.record(channelId, state, participants);
+		} catch (error) {
+			this.logger.warn("Could not record channel state", { channelId, error });
+			this.events.emit("error", error as Error);
+		}
+	}
+
+	/**
+	 * Runs an on-chain operation, wrapping failures in a ChainTransactionError.
+	 */
+	private async transact<T>(operation: string, run: () => Promise<T>): Promise<T> {
+		try {
+			return await run();
+		} catch (error) {
+			throw new ChainTransactionError(operation, error);
+		}
+	}
 
 	// ========== Deposit Methods ==========
 
@@ -203,13 +1021,12 @@ export class Client {
 	 * This is the first step in the channel lifecycle, as funds must be deposited before channels can be created.
 	 * Funds deposited are held in a custody contract until they are allocated to channels or withdrawn.
 	 * @param amount The amount to deposit
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async deposit(amount: bigint): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.deposit(amount);
+	async deposit(amount: bigint, target?: ChainToken): Promise<Hash> {
+		const { client, token } = await this.requireToken("deposit", target);
+		return this.transact("deposit", () => client.deposit(token, amount));
 	}
 
 	/**
@@ -217,39 +1034,36 @@ export class Client {
 	 * While the deposit method handles approvals automatically, this method gives developers explicit control over token approvals.
 	 * This is useful for implementing custom approval UX flows or for batching transactions with other operations.
 	 * @param amount The amount to approve
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async approveTokens(amount: bigint): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.approveTokens(amount);
+	async approveTokens(amount: bigint, target?: ChainToken): Promise<Hash> {
+		const { client, token } = await this.requireToken("approveTokens", target);
+		return this.transact("approveTokens", () => client.approveTokens(token, amount));
 	}
 
 	/**
 	 * Gets the current allowance granted to the custody contract for the specified ERC20 token.
 	 * This is useful for implementing proper UX around approvals, checking if a user needs to approve tokens before depositing,
 	 * or verifying if existing approvals are sufficient for planned operations.
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to the allowance amount
 	 */
-	async getTokenAllowance(): Promise<bigint> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.getTokenAllowance();
+	async getTokenAllowance(target?: ChainToken): Promise<bigint> {
+		const { client, token } = await this.requireToken("getTokenAllowance", target);
+		return client.getTokenAllowance(token);
 	}
 
 	/**
 	 * Gets the on-chain balance of the specified ERC-20 token for the connected wallet address.
 	 * This helps developers implement UX that shows users their available token balance before depositing,
 	 * ensuring they have sufficient funds for the operation. It's particularly useful for validating input amounts in deposit forms.
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to the token balance
 	 */
-	async getTokenBalance(): Promise<bigint> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.getTokenBalance();
+	async getTokenBalance(target?: ChainToken): Promise<bigint> {
+		const { client, token } = await this.requireToken("getTokenBalance", target);
+		return client.getTokenBalance(token);
 	}
 
 	// ========== Channel Creation Methods ==========
@@ -260,13 +1074,17 @@ export class Client {
 	 * signing it, and submitting the transaction to the custody contract. Developers use this to enable high-throughput, low-latency applications
 	 * with instant payments between participants.
 	 * @param params Channel creation parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to channel ID, initial state, and transaction hash
 	 */
-	async createChannel(params: CreateChannelParams): Promise<{ channelId: ChannelId; initialState: State; txHash: Hash }> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.createChannel(params);
+	async createChannel(
+		params: CreateChannelParams,
+		target?: ChainToken
+	): Promise<{ channelId: ChannelId; initialState: State; txHash: Hash }> {
+		const { client } = await this.requireNitrolite("createChannel", target);
+		const result = await this.transact("createChannel", () => client.createChannel(params));
+		await this.recordState(result.channelId, result.initialState, params.channel?.participants);
+		return result;
 	}
 
 	/**
@@ -276,16 +1094,18 @@ export class Client {
 	 * who want to start using your application immediately.
 	 * @param depositAmount The amount to deposit
 	 * @param params Channel creation parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to channel info and transaction hashes
 	 */
 	async depositAndCreateChannel(
 		depositAmount: bigint,
-		params: CreateChannelParams
+		params: CreateChannelParams,
+		target?: ChainToken
 	): Promise<{ channelId: ChannelId; initialState: State; depositTxHash: Hash; createChannelTxHash: Hash }> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.depositAndCreateChannel(depositAmount, params);
+		const { client, token } = await this.requireToken("depositAndCreateChannel", target);
+		const result = await this.transact("depositAndCreateChannel", () => client.depositAndCreateChannel(token, depositAmount, params));
+		await this.recordState(result.channelId, result.initialState, params.channel?.participants);
+		return result;
 	}
 
 	// ========== Channel Operation Methods ==========
@@ -294,14 +1114,17 @@ export class Client {
 	 * Checkpoints a channel state on-chain, creating a permanent on-chain record of the latest state.
 	 * This is essential for security and dispute resolution, as it provides an immutable record that both parties have agreed to the current channel state.
 	 * Use this method periodically during long-running channels to minimize risk, before large allocation changes, or when a participant will be offline for extended periods.
+	 * With a `channelStore`, `candidateState` may be omitted to checkpoint the latest recorded state.
 	 * @param params Checkpoint parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async checkpointChannel(params: CheckpointChannelParams): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.checkpointChannel(params);
+	async checkpointChannel(params: CheckpointChannelParams | { channelId: ChannelId }, target?: ChainToken): Promise<Hash> {
+		const resolved = await this.withCandidateState("checkpointChannel", params, "checkpointParams");
+		const { client } = await this.requireNitrolite("checkpointChannel", target);
+		const txHash = await this.transact("checkpointChannel", () => client.checkpointChannel(resolved));
+		await this.recordState(resolved.channelId, resolved.candidateState);
+		return txHash;
 	}
 
 	/**
@@ -309,28 +1132,33 @@ export class Client {
 	 * This is a dispute resolution mechanism that allows a participant to force progress in the channel by submitting their latest signed state.
 	 * After challenge, the counterparty has a time window (challengeDuration) to respond with a later state, or the challenger's state will be considered final.
 	 * This method protects users from losing funds due to counterparty unavailability.
+	 * With a `channelStore`, `candidateState` may be omitted to challenge with the latest recorded state.
 	 * @param params Challenge parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async challengeChannel(params: ChallengeChannelParams): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.challengeChannel(params);
+	async challengeChannel(params: ChallengeChannelParams | { channelId: ChannelId }, target?: ChainToken): Promise<Hash> {
+		const resolved = await this.withCandidateState("challengeChannel", params, "challengeParams");
+		const { client } = await this.requireNitrolite("challengeChannel", target);
+		const txHash = await this.transact("challengeChannel", () => client.challengeChannel(resolved));
+		await this.recordState(resolved.channelId, resolved.candidateState);
+		return txHash;
 	}
 
 	/**
 	 * Adjusts the total funds allocated to a channel using a new agreed state. This is crucial for dynamic applications where funding requirements change over time.
 	 * Use this to add more funds to a channel that's running low (top-up), or to reduce the locked funds when less capacity is needed.
 	 * Resizing requires consensus from both participants and results in an on-chain transaction that updates the channel's total capacity.
+	 * With a `channelStore`, the signed resize state is recorded.
 	 * @param params Resize parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async resizeChannel(params: ResizeChannelParams): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.resizeChannel(params);
+	async resizeChannel(params: ResizeChannelParams, target?: ChainToken): Promise<Hash> {
+		const { client } = await this.requireNitrolite("resizeChannel", target);
+		const { resizeState, txHash } = await this.transact("resizeChannel", () => client.resizeChannel(params));
+		await this.recordState(params.resizeState.channelId, resizeState);
+		return txHash;
 	}
 
 	// ========== Channel Closing Methods ==========
@@ -339,14 +1167,16 @@ export class Client {
 	 * Gracefully closes a channel on-chain using a mutually agreed final state. This is the standard way to end a channel when both participants are cooperative.
 	 * The method submits the final state to the blockchain, which unlocks funds according to the agreed allocations and makes them available for withdrawal.
 	 * This method should be your go-to approach for ending channels in normal circumstances, as it's gas-efficient and immediately settles the final balances.
+	 * With a `channelStore`, the final state is recorded with the clearnode's signature.
 	 * @param params Close channel parameters
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async closeChannel(params: CloseChannelParams): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.closeChannel(params);
+	async closeChannel(params: CloseChannelParams, target?: ChainToken): Promise<Hash> {
+		const { client } = await this.requireNitrolite("closeChannel", target);
+		const txHash = await this.transact("closeChannel", () => client.closeChannel(params));
+		await this.recordState(params.finalState.channelId, finalStateOf(params));
+		return txHash;
 	}
 
 	// ========== Withdrawal Methods ==========
@@ -357,13 +1187,233 @@ export class Client {
 	 * it cannot withdraw tokens that are still locked in active channels. Use this as the final step in the channel lifecycle to complete
 	 * the full deposit-use-withdraw flow and return funds to the user's control.
 	 * @param amount The amount to withdraw
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to transaction hash
 	 */
-	async withdrawal(amount: bigint): Promise<Hash> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
+	async withdrawal(amount: bigint, target?: ChainToken): Promise<Hash> {
+		const { client, token } = await this.requireToken("withdrawal", target);
+		return this.transact("withdrawal", () => client.withdrawal(token, amount));
+	}
+
+	// ========== Transaction Tracking Methods ==========
+
+	/**
+	 * Watches a transaction sent by one of the on-chain methods until it has `confirmations` blocks, reverts or is replaced.
+	 * Listen to the handle's `pending`/`confirmed`/`reverted`/`replaced` events, or await `handle.wait()`.
+	 * @param hash Transaction hash
+	 * @param options Confirmations and timeout. The public client defaults to the one of `chainId` in `chains`,
+	 * then to the `nitrolite` config's.
+	 * @returns A handle tracking the transaction
+	 */
+	waitFor(hash: Hash, options?: WaitForOptions & { publicClient?: TransactionPublicClient; chainId?: number }): TransactionHandle {
+		const publicClient =
+			options?.publicClient ??
+			(options?.chainId !== undefined ? this.registry?.chain(options.chainId)?.publicClient : undefined) ??
+			this.options.nitrolite?.publicClient;
+		if (!publicClient) {
+			throw new NotConfiguredError("waitFor");
+		}
+		return new TransactionHandle(hash, publicClient, options);
+	}
+
+	// ========== Transaction Preview Methods ==========
+
+	/**
+	 * Prepares the approval (if the allowance is too low) and deposit transactions of `deposit` without sending them.
+	 * @param amount The amount to deposit
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
+	 * @returns Promise resolving to the unsigned transactions, gas estimates and expected balance changes
+	 */
+	async prepareDeposit(amount: bigint, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareDeposit",
+			await this.requireToken("prepareDeposit", target),
+			({ client, token }) => client.txPreparer.prepareDepositTransactions(token, amount),
+			({ token }) => moveFunds(token, amount, "wallet", "custody")
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `approveTokens` without sending it. Approvals move no funds.
+	 */
+	async prepareApproveTokens(amount: bigint, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareApproveTokens",
+			await this.requireToken("prepareApproveTokens", target),
+			({ client, token }) => client.txPreparer.prepareApproveTokensTransaction(token, amount),
+			() => []
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `createChannel` without sending it. The account's initial allocation
+	 * moves from its custody balance into the channel.
+	 */
+	async prepareCreateChannel(params: CreateChannelParams, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareCreateChannel",
+			await this.requireNitrolite("prepareCreateChannel", target),
+			({ client }) => client.txPreparer.prepareCreateChannelTransaction(params),
+			({ account }) => channelFunding(account, params)
+		);
+	}
+
+	/**
+	 * Prepares the approval, deposit and channel creation transactions of `depositAndCreateChannel` without sending them.
+	 */
+	async prepareDepositAndCreateChannel(
+		depositAmount: bigint,
+		params: CreateChannelParams,
+		target?: ChainToken
+	): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareDepositAndCreateChannel",
+			await this.requireToken("prepareDepositAndCreateChannel", target),
+			({ client, token }) => client.txPreparer.prepareDepositAndCreateChannelTransactions(token, depositAmount, params),
+			({ token, account }) => [...moveFunds(token, depositAmount, "wallet", "custody"), ...channelFunding(account, params)]
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `checkpointChannel` without sending it. Checkpoints move no funds.
+	 */
+	async prepareCheckpointChannel(
+		params: CheckpointChannelParams | { channelId: ChannelId },
+		target?: ChainToken
+	): Promise<TransactionPreview> {
+		const resolved = await this.withCandidateState("prepareCheckpointChannel", params, "checkpointParams");
+		return this.preview(
+			"prepareCheckpointChannel",
+			await this.requireNitrolite("prepareCheckpointChannel", target),
+			({ client }) => client.txPreparer.prepareCheckpointChannelTransaction(resolved),
+			() => []
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `challengeChannel` without sending it. Funds only move once the challenge is settled.
+	 */
+	async prepareChallengeChannel(
+		params: ChallengeChannelParams | { channelId: ChannelId },
+		target?: ChainToken
+	): Promise<TransactionPreview> {
+		const resolved = await this.withCandidateState("prepareChallengeChannel", params, "challengeParams");
+		return this.preview(
+			"prepareChallengeChannel",
+			await this.requireNitrolite("prepareChallengeChannel", target),
+			({ client }) => client.txPreparer.prepareChallengeChannelTransaction(resolved),
+			() => []
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `resizeChannel` without sending it. The account's resize amount moves between
+	 * its custody balance and the channel.
+	 */
+	async prepareResizeChannel(params: ResizeChannelParams, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareResizeChannel",
+			await this.requireNitrolite("prepareResizeChannel", target),
+			({ client }) => client.txPreparer.prepareResizeChannelTransaction(params),
+			({ token }) => {
+				const delta = resizeDelta(params.resizeState.data);
+				return delta === null ? [] : moveFunds(params.resizeState.allocations[0]?.token ?? token, delta, "custody", "channel");
+			}
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `closeChannel` without sending it. The account's final allocation
+	 * moves from the channel to its custody balance.
+	 */
+	async prepareCloseChannel(params: CloseChannelParams, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareCloseChannel",
+			await this.requireNitrolite("prepareCloseChannel", target),
+			({ client }) => client.txPreparer.prepareCloseChannelTransaction(params),
+			({ account }) =>
+				[...allocatedTo(account, params.finalState.allocations)].flatMap(([token, amount]) =>
+					moveFunds(token, amount, "channel", "custody")
+				)
+		);
+	}
+
+	/**
+	 * Prepares the transaction of `withdrawal` without sending it.
+	 */
+	async prepareWithdrawal(amount: bigint, target?: ChainToken): Promise<TransactionPreview> {
+		return this.preview(
+			"prepareWithdrawal",
+			await this.requireToken("prepareWithdrawal", target),
+			({ client, token }) => client.txPreparer.prepareWithdrawalTransaction(token, amount),
+			({ token }) => moveFunds(token, amount, "custody", "wallet")
+		);
+	}
+
+	/**
+	 * Simulates an on-chain operation and describes its transactions, wrapping failures in a ChainTransactionError.
+	 */
+	private async preview<R extends NitroliteTarget>(
+		operation: string,
+		resolved: R,
+		prepare: (resolved: R) => Promise<PreparedTransaction | PreparedTransaction[]>,
+		balanceChanges: (context: { token: R["token"]; account?: Address }) => BalanceChange[]
+	): Promise<TransactionPreview> {
+		const { config, token } = resolved;
+		let prepared: PreparedTransaction | PreparedTransaction[];
+		try {
+			prepared = await prepare(resolved);
+		} catch (error) {
+			throw new ChainTransactionError(operation, error);
 		}
-		return this.nitroliteClient.withdrawal(amount);
+		return toPreview(
+			config.publicClient,
+			[prepared].flat(),
+			balanceChanges({ token, account: config.walletClient?.account?.address })
+		);
+	}
+
+	// ========== Channel Lifecycle Methods ==========
+
+	/**
+	 * Opens a funded channel in one call: requests the channel from the clearnode, deposits and creates it on-chain,
+	 * then resizes the deposit into it. Calling it again after an interruption continues the unfinished flow.
+	 * @param asset Asset symbol, e.g. "usdc", on the configured chain
+	 * @param amount Amount in the asset's smallest unit
+	 * @returns Promise resolving to the channel ID and every transaction sent
+	 */
+	async openChannel(asset: string, amount: bigint): Promise<ChannelFlowResult> {
+		return this.lifecycle.open(asset, amount);
+	}
+
+	/**
+	 * Adds funds to an open channel: deposits them, then runs the clearnode resize and the on-chain resize.
+	 * @param amount Amount in the asset's smallest unit
+	 */
+	async topUp(channelId: ChannelId, amount: bigint): Promise<ChannelFlowResult> {
+		return this.lifecycle.topUp(channelId, amount);
+	}
+
+	/**
+	 * Closes a channel cooperatively with the clearnode, settles it on-chain and withdraws the account's share
+	 * of the final allocations from the custody contract.
+	 */
+	async closeAndWithdraw(channelId: ChannelId): Promise<ChannelFlowResult> {
+		return this.lifecycle.closeAndWithdraw(channelId);
+	}
+
+	/**
+	 * Channel flows interrupted before completing, with the steps already done.
+	 */
+	async pendingChannelFlows(): Promise<ChannelFlow[]> {
+		return this.lifecycle.pending();
+	}
+
+	/**
+	 * Runs every interrupted channel flow to completion, e.g. on startup after a crash.
+	 */
+	async resumeChannelFlows(): Promise<ChannelFlowResult[]> {
+		return this.lifecycle.resume();
 	}
 
 	// ========== Account Information Methods ==========
@@ -372,13 +1422,11 @@ export class Client {
 	 * Retrieves a list of all channel IDs associated with the connected account.
 	 * This is essential for applications that need to monitor, display, or manage multiple channels simultaneously.
 	 * Use this to build dashboards showing all user channels, to implement batch operations on multiple channels, or to verify channel existence before performing operations.
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
 	 * @returns Promise resolving to array of channel IDs
 	 */
-	async getAccountChannels(): Promise<ChannelId[]> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.getAccountChannels();
+	async getAccountChannels(target?: ChainToken): Promise<ChannelId[]> {
+		return (await this.requireNitrolite("getAccountChannels", target)).client.getOpenChannels();
 	}
 
 	/**
@@ -386,35 +1434,89 @@ export class Client {
 	 * Returns information about available (unlocked) funds, funds locked in active channels, and the total number of channels.
 	 * This method is crucial for building UIs that show users their current balances and channel activity, for validating that sufficient funds are available before operations,
 	 * and for monitoring the overall health of the user's Nitrolite account.
-	 * @returns Promise resolving to account information
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
+	 * @returns Promise resolving to account information for the token
 	 */
-	async getAccountInfo(): Promise<AccountInfo> {
-		if (!this.nitroliteClient) {
-			throw new Error("Nitrolite client not configured. Provide nitrolite config in ClientOptions.");
-		}
-		return this.nitroliteClient.getAccountInfo();
+	async getAccountInfo(target?: ChainToken): Promise<AccountInfo> {
+		const { client, token } = await this.requireToken("getAccountInfo", target);
+		const [available, channels] = await Promise.all([client.getAccountBalance(token), client.getOpenChannels()]);
+		const locked = await Promise.all(channels.map((channelId: ChannelId) => client.getChannelBalance(channelId, token)));
+		return { available, locked: locked.reduce((sum, amount) => sum + amount, 0n), channelCount: channels.length };
 	}
 
-	async request<T = any>(request: RequestObject): Promise<T> {
-		if (!this.isConnected || !this.ws) {
-			await this.connect();
+	/**
+	 * Gets the account's available (unlocked) balance of the token in the custody contract.
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
+	 * @returns Promise resolving to the balance
+	 */
+	async getAccountBalance(target?: ChainToken): Promise<bigint> {
+		const { client, token } = await this.requireToken("getAccountBalance", target);
+		return client.getAccountBalance(token);
+	}
+
+	/**
+	 * Reads a channel from the custody contract: its parameters, status, participant wallets, challenge expiry
+	 * and the last valid state put on-chain.
+	 * @param channelId Channel ID
+	 * @param target Chain and token to run on, through the `chains` registry. Defaults to the `nitrolite` config.
+	 * @returns Promise resolving to the on-chain channel data
+	 */
+	async getChannelData(channelId: ChannelId, target?: ChainToken): Promise<ChannelData> {
+		return (await this.requireNitrolite("getChannelData", target)).client.getChannelData(channelId);
+	}
+
+	/**
+	 * Chains and tokens the on-chain methods can target: supported by the clearnode and present in `chains`.
+	 */
+	async getSupportedTokens(): Promise<RPCAsset[]> {
+		if (!this.registry) {
+			throw new NotConfiguredError("getSupportedTokens");
 		}
-		const id = this.nextId++;
-		const payload = { id, ...request };
+		return this.registry.supported();
+	}
 
-		const result = new Promise<T>((resolve, reject) => {
-			const timer =
-				this.options.requestTimeoutMs > 0
-					? setTimeout(() => {
-							this.pendingById.delete(id);
-							reject(new Error("Request timed out"));
-						}, this.options.requestTimeoutMs)
-					: null;
-			this.pendingById.set(id, { resolve, reject, timer });
+	/**
+	 * Replaces the signer used for requests built by `request` and `call`, e.g. after authenticating a new session key.
+	 * Pass `null` to send unsigned requests.
+	 */
+	setSigner(signer: MessageSigner | null): void {
+		this.signer = signer;
+	}
+
+	/**
+	 * Sends `command` as a clearnode RPC request, with the remaining fields as params.
+	 * The client assigns the id, timestamps the request and signs it with the configured signer.
+	 * @param request The command and its params
+	 * @param options Per-request options
+	 * @returns Promise resolving to the parsed response
+	 */
+	async request<T = any>(request: RequestObject, options?: RequestOptions): Promise<T> {
+		const { url: _url, command, ...params } = request;
+		const idempotent = this.isIdempotent(command, options);
+		// Every attempt gets a fresh id, timestamp and signature
+		return this.retry(idempotent, options, async () => {
+			const { id, data } = await this.createRequest(command, params, options?.signers);
+			return this.submit<T>(id, data, idempotent) as Promise<T>;
 		});
+	}
 
-		this.ws!.send(JSON.stringify(payload));
-		return result;
+	/**
+	 * Calls a clearnode RPC method with typed params and result.
+	 * Builds and signs the `{ req: [id, method, params, timestamp], sig }` envelope, awaits the matching response
+	 * and resolves with its parsed params.
+	 * @param method The RPC method to call
+	 * @param params Method params; may be omitted when every field is optional
+	 * @param options Per-request options
+	 * @returns Promise resolving to the parsed result of the method
+	 */
+	async call<M extends RPCCallMethod>(method: M, ...[params, options]: RPCCallArgs<M, RequestOptions>): Promise<RPCResult<M>> {
+		const idempotent = this.isIdempotent(method, options);
+		// Every attempt gets a fresh id, timestamp and signature
+		return this.retry(idempotent, options, async () => {
+			const { id, data } = await this.createRequest(method, params ?? ({} as RPCParams<M>), options?.signers);
+			const response = (await this.submit<RPCResponse>(id, data, idempotent)) as RPCResponse;
+			return response.params as RPCResult<M>;
+		});
 	}
 
 	/**
@@ -422,110 +1524,425 @@ export class Client {
 	 * If the message contains an `id` field, this method will wait for a response
 	 * with the matching id and return it. Otherwise, it sends without waiting.
 	 * @param message The message to send (will be JSON.stringify'd if not a string)
+	 * @param options Per-request options
 	 * @returns Promise resolving to the response if message has an id, or void otherwise
 	 */
-	async sendMessage<T = any>(message: any): Promise<T | void> {
-		if (!this.isConnected || !this.ws) {
+	async sendMessage<T = any>(message: any, options?: RequestOptions): Promise<T | void> {
+		// Check if message has an id field for request/response correlation
+		const messageObj = typeof message === 'string' ? JSON.parse(message) : message;
+		const data = typeof message === 'string' ? message : JSON.stringify(message);
+		const idempotent = this.isIdempotent(messageObj?.req?.[1], options);
+		// The message is already signed, so retries resend it with the same id
+		return this.retry(idempotent, options, () => this.submit<T>(messageObj?.req[0], data, idempotent));
+	}
+
+	/**
+	 * Sends a message directly, bypassing the re-authentication gate and the offline queue.
+	 * Used by the auth handshake itself.
+	 */
+	private async send<T = any>(message: any): Promise<T | void> {
+		if (!this.isOpen) {
 			await this.connect();
 		}
-		// Check if message has an id field for request/response correlation
 		const messageObj = typeof message === 'string' ? JSON.parse(message) : message;
-		const id = messageObj?.req[0];
+		const data = typeof message === 'string' ? message : JSON.stringify(message);
+		return this.dispatch<T>(messageObj?.req[0], data, false);
+	}
+
+	/**
+	 * Sends an auth handshake message, turning an `error` response into the matching AuthError.
+	 */
+	private async sendAuth(message: string): Promise<RPCResponse> {
+		try {
+			return (await this.send<RPCResponse>(message)) as RPCResponse;
+		} catch (error) {
+			throw error instanceof RpcError ? toAuthError(error.message) : error;
+		}
+	}
+
+	/**
+	 * Builds the clearnode request envelope `{ req: [id, method, params, timestamp], sig }`.
+	 * Params are normalized first (bigints become strings) so the signature covers exactly the bytes that are sent.
+	 */
+	private async createRequest(method: string, params: object, signers?: MessageSigner[]): Promise<{ id: number; data: string }> {
+		const id = this.nextId++;
+		const normalized = JSON.parse(JSON.stringify(params, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+		const req = [id, method, normalized, Date.now()];
+		const requestSigners = signers ?? (this.signer ? [this.signer] : []);
+		const sig = await Promise.all(requestSigners.map((signer) => signer(req)));
+		return { id, data: JSON.stringify({ req, sig }) };
+	}
+
+	private isIdempotent(method: unknown, options?: RequestOptions): boolean {
+		return options?.idempotent ?? (typeof method === "string" && this.options.idempotentMethods.has(method));
+	}
+
+	/**
+	 * Runs a request under the retry policy. Non-idempotent requests get a single attempt,
+	 * and no attempt is made after `disconnect()`.
+	 */
+	private retry<T>(idempotent: boolean, options: RequestOptions | undefined, run: () => Promise<T>): Promise<T> {
+		const policy = idempotent ? resolveRetryPolicy(this.options.retry, options?.retry) : null;
+		return withRetry(policy, run, () => this.isOpen || this.connectionState === "reconnecting");
+	}
+
+	private async submit<T>(id: unknown, data: string, idempotent: boolean): Promise<T | void> {
+		if (this.options.queue && (!this.isOpen || this.reauthentication)) {
+			return this.enqueue<T>(id, data, idempotent);
+		}
+		await this.ensureSession();
+		return this.dispatch<T>(id, data, idempotent);
+	}
 
+	/**
+	 * Writes a frame to the socket. Frames with an id are tracked until the matching response arrives.
+	 */
+	private dispatch<T>(
+		id: unknown,
+		data: string,
+		idempotent: boolean,
+		timeoutMs: number = this.options.requestTimeoutMs
+	): Promise<T | void> {
 		if (typeof id === 'number' || typeof id === 'string') {
 			// Track this request and wait for corresponding response
 			const result = new Promise<T>((resolve, reject) => {
 				const timer =
-					this.options.requestTimeoutMs > 0
+					timeoutMs > 0
 						? setTimeout(() => {
 								this.pendingById.delete(id);
-								reject(new Error("Request timed out"));
-							}, this.options.requestTimeoutMs)
+								reject(
+									new TimeoutError("Request timed out", timeoutMs, {
+										requestId: id,
+										method: methodOf(data),
+									})
+								);
+							}, timeoutMs)
 						: null;
-				this.pendingById.set(id, { resolve, reject, timer });
+				this.pendingById.set(id, { resolve, reject, timer, data, idempotent });
+			});
+			this.measure(result, methodOf(data));
+			result.catch((error) => this.middleware.error(error, { requestId: id, method: methodOf(data) }));
+			this.write(data).catch((error) => {
+				const pending = this.pendingById.get(id);
+				if (!pending) return;
+				this.pendingById.delete(id);
+				pending.timer && clearTimeout(pending.timer);
+				pending.reject(error);
 			});
-
-			const data = typeof message === 'string' ? message : JSON.stringify(message);
-			this.ws!.send(data);
 			return result;
 		}
 
 		// No id field - just send without waiting for response
-		const data = typeof message === 'string' ? message : JSON.stringify(message);
-		this.ws!.send(data);
+		const sent = this.write(data);
+		sent.catch((error) => this.middleware.error(error, { method: methodOf(data) }));
+		return sent;
+	}
+
+	/**
+	 * Passes a frame through the middlewares' `onSend` hooks, then writes it to the socket it was dispatched on.
+	 */
+	private write(data: string): Promise<void> {
+		const ws = this.ws!;
+		const connection = this.connection;
+		this.metrics.increment(METRICS.messages, { direction: "send", method: methodOf(data) ?? "unknown" });
+		if (this.middleware.empty) {
+			ws.send(data);
+			return Promise.resolve();
+		}
+		return this.middleware.send(data, { ...frameContext(data), direction: "send", url: this.connectedUrl }).then((frame) => {
+			// A connection dropped or replaced while the middlewares ran already rejected its pending requests
+			if (ws === this.ws && connection === this.connection) ws.send(frame);
+		});
+	}
+
+	/**
+	 * Reports the pending-request gauge now, and the request latency once `result` settles.
+	 */
+	private measure(result: Promise<unknown>, method = "unknown"): void {
+		const startedAt = Date.now();
+		this.metrics.gauge(METRICS.pendingRequests, this.pendingById.size);
+		const settle = (outcome: "ok" | "error" | "timeout") => {
+			this.metrics.observe(METRICS.requestDuration, Date.now() - startedAt, { method, outcome });
+			this.metrics.gauge(METRICS.pendingRequests, this.pendingById.size);
+		};
+		result.then(
+			() => settle("ok"),
+			(error) => {
+				if (error instanceof TimeoutError) {
+					this.metrics.increment(METRICS.requestTimeouts, { method });
+				}
+				settle(error instanceof TimeoutError ? "timeout" : "error");
+			}
+		);
+	}
+
+	// ========== Heartbeat ==========
+
+	/**
+	 * Sends a heartbeat ping straight to the socket, bypassing the re-authentication gate, the queue and retries.
+	 */
+	private async ping(timeoutMs: number): Promise<void> {
+		if (!this.isOpen) {
+			throw new DisconnectedError({ method: RPCMethod.Ping });
+		}
+		const { id, data } = await this.createRequest(RPCMethod.Ping, {});
+		await this.dispatch(id, data, false, timeoutMs);
+	}
+
+	/**
+	 * Drops a connection that stopped answering; the usual backoff reconnect follows.
+	 */
+	private forceReconnect(): void {
+		this.ws?.drop(4000, "Heartbeat timeout");
+	}
+
+	// ========== Offline Queue ==========
+
+	private enqueue<T>(id: unknown, data: string, idempotent: boolean): Promise<T | void> {
+		return new Promise<T | void>((resolve, reject) => {
+			const correlationId = typeof id === "number" || typeof id === "string" ? id : undefined;
+			this.enqueueEntry({ id: correlationId, data, idempotent, resolve, reject, timer: null }, false);
+			if (this.connectionState === "idle" || this.connectionState === "closed") {
+				// Failures surface through the queue deadline
+				this.connect().catch(() => {});
+			}
+		});
+	}
+
+	private enqueueEntry(entry: Queued, front: boolean): void {
+		const { maxSize, deadlineMs } = this.options.queue!;
+		if (this.queue.length >= maxSize) {
+			entry.reject(new QueueOverflowError(maxSize));
+			return;
+		}
+		entry.timer =
+			deadlineMs > 0
+				? setTimeout(() => {
+						const index = this.queue.indexOf(entry);
+						if (index > -1) this.queue.splice(index, 1);
+						entry.reject(new QueueDeadlineError(deadlineMs));
+					}, deadlineMs)
+				: null;
+		if (front) {
+			this.queue.unshift(entry);
+		} else {
+			this.queue.push(entry);
+		}
+	}
+
+	/**
+	 * Sends every queued request in order once the socket is open and authenticated.
+	 */
+	private flushQueue(): void {
+		if (!this.isOpen) return;
+		for (const entry of this.queue.splice(0)) {
+			entry.timer && clearTimeout(entry.timer);
+			this.dispatch(entry.id, entry.data, entry.idempotent).then(entry.resolve, entry.reject);
+		}
+	}
+
+	/**
+	 * Connects if needed and waits for any in-progress re-authentication, so requests are never sent on an unauthenticated socket.
+	 */
+	private async ensureSession(): Promise<void> {
+		if (!this.isOpen) {
+			await this.connect();
+		}
+		if (this.reauthentication) {
+			await this.reauthentication;
+		}
+	}
+
+	// ========== Connection State ==========
+
+	/**
+	 * Whether the socket is open, authenticated or not.
+	 */
+	private get isOpen(): boolean {
+		const state = this.connectionState;
+		return this.ws !== null && (state === "open" || state === "authenticating" || state === "ready");
+	}
+
+	private setState(state: ConnectionState): void {
+		const previous = this.connectionState;
+		if (previous === state) return;
+		this.connectionState = state;
+		this.logger.debug("Connection state changed", { previous, state });
+		this.events.emit("stateChange", { previous, state });
+	}
+
+	/**
+	 * Moves to `to` only if still in `from`, so a handshake finishing after the socket dropped cannot resurrect the connection.
+	 */
+	private transition(from: ConnectionState, to: ConnectionState): void {
+		if (this.connectionState === from) this.setState(to);
 	}
 
-	private async waitUntilOpen(timeoutMs: number): Promise<void> {
-		if (this.isConnected) return;
-		const start = Date.now();
-		while (!this.isConnected) {
-			if (timeoutMs > 0 && Date.now() - start >= timeoutMs) {
-				throw new Error("Connect timed out");
+	/**
+	 * Rejects in-flight requests with DisconnectedError, re-queueing idempotent ones in queue mode when `requeue` is set.
+	 */
+	private rejectPending(requeue: boolean): void {
+		const requeued: Queued[] = [];
+		for (const [id, pending] of this.pendingById.entries()) {
+			pending.timer && clearTimeout(pending.timer);
+			this.pendingById.delete(id);
+			if (requeue && this.options.queue && pending.idempotent) {
+				requeued.push({ ...pending, id, timer: null });
+			} else {
+				pending.reject(new DisconnectedError({ requestId: id, method: methodOf(pending.data) }));
 			}
-			// Yield to event loop
-			await new Promise((r) => setTimeout(r, 20));
 		}
+		for (const entry of requeued.reverse()) {
+			this.enqueueEntry(entry, true);
+		}
+		this.metrics.gauge(METRICS.pendingRequests, this.pendingById.size);
+	}
+
+	/**
+	 * Passes a received frame through the middlewares' `onReceive` hooks before handling it.
+	 */
+	private receive(data: any): void {
+		if (this.middleware.empty) {
+			this.handleMessage(data);
+			return;
+		}
+		const frame = typeof data === "string" ? data : String(data);
+		void this.middleware.receive(frame, { ...frameContext(frame), direction: "receive", url: this.connectedUrl }).then((received) => {
+			if (received !== null) this.handleMessage(received);
+		});
 	}
 
 	private handleMessage(data: any): void {
 		let parsed: any = data;
-		var response: any;
-		var parsedRpcMethod: any;
+		let response: RPCResponse;
 		try {
-
 			response = (nitrolite as any).parseAnyRPCResponse(data);
 			if (typeof data === "string") {
 				parsed = JSON.parse(data);
 			}
 		} catch(error) {
-			console.error("Error parsing message", data);
-			console.error("Error", error);
+			this.logger.error("Error parsing message", { data, error });
+			this.events.emit("error", error as Error);
+			this.middleware.error(error as Error, {});
 			// Non-JSON payloads are ignored for request/response flow
 			return;
 		}
 
+		this.metrics.increment(METRICS.messages, { direction: "receive", method: response.method ?? "unknown" });
+
 		// Handle request/response correlation
 		const id = response.requestId
+		let correlated = false;
 
 		if (typeof id === "number" || typeof id === "string") {
 			const pending = this.pendingById.get(id);
 			if (pending) {
+				correlated = true;
 				this.pendingById.delete(id);
 				pending.timer && clearTimeout(pending.timer);
-				if (parsed?.status === "error" || parsed?.error) {
-					pending.reject(response);
+				// Clearnode errors arrive as `res: [id, "error", { error }]`; legacy envelopes also carry a code
+				const failure =
+					parsed?.status === "error" || parsed?.error ? parsed : response.method === RPCMethod.Error ? response.params : null;
+				if (failure) {
+					pending.reject(toRpcError(failure, { requestId: id, method: methodOf(pending.data) }));
 				} else {
 					pending.resolve(response);
 				}
 			}
 		}
 
-		// Parse with nitrolite and call listeners
-		try {
-
-			// Call listeners
-			for (const listener of this.listeners) {
-				try {
-					if (!listener.event || (parsedRpcMethod as any)?.type === listener.event || (parsedRpcMethod as any)?.event === listener.event) {
-						listener.callback(response);
-					}
-				} catch (error) {
-					// Don't let listener errors break other listeners
-					console.warn('Listener error:', error);
-				}
-			}
-		} catch (parseError) {
-			// If parsing fails, still try to call listeners with raw parsed data
-			for (const listener of this.listeners) {
-				try {
-					if (!listener.event) {
-						const response = (nitrolite as any).parseAnyRPCResponse(JSON.stringify(parsed));
-						listener.callback(response);
-					}
-				} catch (error) {
-					console.warn('Listener error:', error);
+		// Call listeners, filtered by RPC method when registered with one
+		for (const listener of this.listeners) {
+			try {
+				if (!listener.event || listener.event === response.method) {
+					listener.callback(response);
 				}
+			} catch (error) {
+				// Don't let listener errors break other listeners
+				this.logger.warn("Listener error", { error });
 			}
 		}
+
+		if (!correlated) {
+			this.emitNotification(response);
+		}
+	}
+
+	/**
+	 * Maps server push frames (and uncorrelated error frames) to typed client events.
+	 */
+	private emitNotification(response: RPCResponse): void {
+		switch (response.method) {
+			case RPCMethod.BalanceUpdate:
+				this.events.emit("balanceUpdate", response.params);
+				break;
+			case RPCMethod.ChannelsUpdate:
+				this.events.emit("channelsUpdate", response.params);
+				break;
+			case RPCMethod.ChannelUpdate:
+				this.events.emit("channelUpdate", response.params);
+				break;
+			case RPCMethod.TransferNotification:
+				this.events.emit("transfer", response.params);
+				break;
+			case RPCMethod.AppSessionUpdate:
+				this.events.emit("appSessionUpdate", response.params);
+				break;
+			case RPCMethod.Error:
+				this.events.emit("error", new RpcError(response.params.error, { requestId: response.requestId }));
+				break;
+		}
+	}
+}
+
+function toAuthError(message: string): AuthError {
+	if (/expired/i.test(message)) {
+		return new AuthExpiredError(message);
+	}
+	return new AuthRejectedError(message);
+}
+
+/**
+ * The state a cooperative close puts on-chain, signed by the clearnode. The account's signature is added by
+ * nitrolite when the transaction is sent and not returned.
+ */
+function finalStateOf({ finalState, stateData }: CloseChannelParams): State {
+	return {
+		intent: StateIntent.FINALIZE,
+		version: finalState.version,
+		data: stateData,
+		allocations: finalState.allocations,
+		sigs: [finalState.serverSignature],
+	};
+}
+
+/**
+ * Balance changes of funding a new channel with the account's initial allocation.
+ */
+function channelFunding(account: Address | undefined, params: CreateChannelParams): BalanceChange[] {
+	return [...allocatedTo(account, params.unsignedInitialState.allocations)].flatMap(([token, amount]) =>
+		moveFunds(token, amount, "custody", "channel")
+	);
+}
+
+/**
+ * Method of an outgoing request frame, for error context.
+ */
+function methodOf(data: string): string | undefined {
+	try {
+		const method = JSON.parse(data)?.req?.[1];
+		return typeof method === "string" ? method : undefined;
+	} catch {
+		return undefined;
 	}
 }
+
+/**
+ * Converts a legacy `{ status: "error", error }` response into an RpcError.
+ */
+function toRpcError(parsed: any, context: { requestId: number | string; method?: string }): RpcError {
+	const error = parsed.error;
+	const message = typeof error === "string" ? error : error?.message ?? "RPC request failed";
+	const code = typeof error?.code === "number" ? error.code : typeof parsed.code === "number" ? parsed.code : undefined;
+	return new RpcError(message, { ...context, code });
+}
@@ -0,0 +1,146 @@
+export type FailoverOptions = {
+	/**
+	 * Consecutive connect failures or drops after which an endpoint is taken out of rotation. Defaults to 3.
+	 */
+	maxFailures?: number;
+	/**
+	 * How long an endpoint stays out of rotation before it is probed again. Defaults to 30000.
+	 */
+	recoveryMs?: number;
+	/**
+	 * Average latency above which an endpoint counts as degraded, so a healthy lower-priority endpoint is preferred.
+	 * Defaults to Infinity (latency does not affect selection).
+	 */
+	slowLatencyMs?: number;
+};
+
+export type EndpointHealth = {
+	url: string;
+	/**
+	 * Position in `urls`; 0 is the primary endpoint.
+	 */
+	priority: number;
+	consecutiveFailures: number;
+	/**
+	 * Moving average of connect times and heartbeat round trips, or null before the first sample.
+	 */
+	latencyMs: number | null;
+	/**
+	 * Timestamp until which the endpoint is out of rotation, or null while it is in rotation.
+	 */
+	downUntil: number | null;
+	/**
+	 * Lower is healthier: consecutive failures, plus one while slower than `slowLatencyMs`.
+	 */
+	score: number;
+};
+
+type Endpoint = {
+	url: string;
+	priority: number;
+	consecutiveFailures: number;
+	latencyMs: number | null;
+	downUntil: number | null;
+	/**
+	 * Back in rotation after a cool-down; one more failure takes it out again.
+	 */
+	probing: boolean;
+};
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Tracks the health of a prioritized list of clearnode endpoints and picks the one to connect to.
+ * The highest-priority endpoint in rotation that is not slow wins, so the client fails over once the current
+ * endpoint keeps failing and reconnects return to the primary endpoint as soon as it is back in rotation.
+ */
+export class EndpointPool {
+	private readonly endpoints: Endpoint[];
+	private readonly maxFailures: number;
+	private readonly recoveryMs: number;
+	private readonly slowLatencyMs: number;
+
+	constructor(urls: string[], options?: FailoverOptions) {
+		if (urls.length === 0) {
+			throw new Error("At least one endpoint URL is required");
+		}
+		this.endpoints = urls.map((url, priority) => ({
+			url,
+			priority,
+			consecutiveFailures: 0,
+			latencyMs: null,
+			downUntil: null,
+			probing: false,
+		}));
+		this.maxFailures = options?.maxFailures ?? 3;
+		this.recoveryMs = options?.recoveryMs ?? 30_000;
+		this.slowLatencyMs = options?.slowLatencyMs ?? Infinity;
+	}
+
+	/**
+	 * Picks the endpoint for the next connect attempt. When every endpoint is out of rotation,
+	 * the one that recovers first is tried.
+	 */
+	select(now: number = Date.now()): string {
+		for (const endpoint of this.endpoints) {
+			if (endpoint.downUntil !== null && endpoint.downUntil <= now) {
+				endpoint.downUntil = null;
+				endpoint.consecutiveFailures = 0;
+				endpoint.probing = true;
+			}
+		}
+		const available = this.endpoints.filter((endpoint) => endpoint.downUntil === null);
+		if (available.length === 0) {
+			return this.endpoints.reduce((a, b) => (b.downUntil! < a.downUntil! ? b : a)).url;
+		}
+		return (available.find((endpoint) => !this.isSlow(endpoint)) ?? available[0]).url;
+	}
+
+	recordSuccess(url: string, connectMs?: number): void {
+		const endpoint = this.find(url);
+		if (!endpoint) return;
+		endpoint.consecutiveFailures = 0;
+		endpoint.downUntil = null;
+		endpoint.probing = false;
+		if (connectMs !== undefined) this.recordLatency(url, connectMs);
+	}
+
+	recordFailure(url: string, now: number = Date.now()): void {
+		const endpoint = this.find(url);
+		if (!endpoint) return;
+		endpoint.consecutiveFailures++;
+		if (endpoint.probing || endpoint.consecutiveFailures >= this.maxFailures) {
+			endpoint.downUntil = now + this.recoveryMs;
+			endpoint.probing = false;
+		}
+	}
+
+	recordLatency(url: string, latencyMs: number): void {
+		const endpoint = this.find(url);
+		if (!endpoint) return;
+		endpoint.latencyMs =
+			endpoint.latencyMs === null
+				? latencyMs
+				: endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+	}
+
+	health(): EndpointHealth[] {
+		return this.endpoints.map((endpoint) => {
+			const { probing: _probing, ...health } = endpoint;
+			return { ...health, score: this.score(endpoint) };
+		});
+	}
+
+	private score(endpoint: Endpoint): number {
+		return endpoint.consecutiveFailures + (this.isSlow(endpoint) ? 1 : 0);
+	}
+
+	private isSlow(endpoint: Endpoint): boolean {
+		return endpoint.latencyMs !== null && endpoint.latencyMs > this.slowLatencyMs;
+	}
+
+	private find(url: string): Endpoint | undefined {
+		return this.endpoints.find((endpoint) => endpoint.url === url);
+	}
+}
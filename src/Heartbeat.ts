@@ -0,0 +1,111 @@
+export type HeartbeatOptions = {
+	/**
+	 * Time between pings in milliseconds. Defaults to 15000.
+	 */
+	intervalMs?: number;
+	/**
+	 * How long to wait for the pong before counting the ping as missed. Defaults to 5000.
+	 */
+	timeoutMs?: number;
+	/**
+	 * Consecutive missed pongs after which the connection is considered dead. Defaults to 2.
+	 */
+	maxMissed?: number;
+};
+
+/**
+ * Round-trip times of the heartbeat pings on the current client, in milliseconds.
+ */
+export type LatencyStats = {
+	lastMs: number;
+	minMs: number;
+	maxMs: number;
+	averageMs: number;
+	samples: number;
+	/**
+	 * Pings that went unanswered since the last pong.
+	 */
+	missed: number;
+};
+
+type HeartbeatCallbacks = {
+	/**
+	 * Sends a ping and resolves on the pong, rejecting after `timeoutMs`.
+	 */
+	ping: (timeoutMs: number) => Promise<unknown>;
+	onLatency: (rttMs: number) => void;
+	onDead: () => void;
+};
+
+/**
+ * Application-level keepalive: pings on an interval and reports the connection dead after `maxMissed` missed pongs,
+ * catching half-open connections the socket itself never reports as closed.
+ */
+export class Heartbeat {
+	private readonly intervalMs: number;
+	private readonly timeoutMs: number;
+	private readonly maxMissed: number;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private inFlight = false;
+	private missed = 0;
+	private stats: LatencyStats | null = null;
+
+	constructor(options: HeartbeatOptions, private readonly callbacks: HeartbeatCallbacks) {
+		this.intervalMs = options.intervalMs ?? 15_000;
+		this.timeoutMs = options.timeoutMs ?? 5_000;
+		this.maxMissed = options.maxMissed ?? 2;
+	}
+
+	get latency(): LatencyStats | null {
+		return this.stats && { ...this.stats, missed: this.missed };
+	}
+
+	start(): void {
+		this.stop();
+		this.missed = 0;
+		this.timer = setInterval(() => this.beat(), this.intervalMs);
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+		this.inFlight = false;
+	}
+
+	private async beat(): Promise<void> {
+		// A slow pong is already being waited on; don't stack pings
+		if (this.inFlight) return;
+		this.inFlight = true;
+		const timer = this.timer;
+		const start = Date.now();
+		try {
+			await this.callbacks.ping(this.timeoutMs);
+			if (timer !== this.timer) return;
+			this.missed = 0;
+			this.record(Date.now() - start);
+		} catch {
+			if (timer !== this.timer) return;
+			this.missed++;
+			if (this.missed >= this.maxMissed) {
+				this.stop();
+				this.callbacks.onDead();
+			}
+		} finally {
+			if (timer === this.timer) this.inFlight = false;
+		}
+	}
+
+	private record(rttMs: number): void {
+		const total = (this.stats?.averageMs ?? 0) * (this.stats?.samples ?? 0) + rttMs;
+		const samples = (this.stats?.samples ?? 0) + 1;
+		this.stats = {
+			lastMs: rttMs,
+			minMs: Math.min(this.stats?.minMs ?? rttMs, rttMs),
+			maxMs: Math.max(this.stats?.maxMs ?? rttMs, rttMs),
+			averageMs: total / samples,
+			samples,
+			missed: 0,
+		};
+		this.callbacks.onLatency(rttMs);
+	}
+}
@@ -0,0 +1,114 @@
+import { InProcessSocket, type Transport, type TransportSocket } from "./transport";
+
+/**
+ * The server end of an in-memory connection.
+ */
+export class MemoryPeer {
+	private readonly listeners = new Set<(frame: string) => void>();
+
+	constructor(readonly url: string, private readonly socket: MemorySocket) {}
+
+	/**
+	 * Whether the connection was closed by either end.
+	 */
+	get closed(): boolean {
+		return this.socket.readyState >= 2;
+	}
+
+	/**
+	 * Delivers a frame to the client.
+	 */
+	send(frame: string | object): void {
+		const data = typeof frame === "string" ? frame : JSON.stringify(frame);
+		queueMicrotask(() => this.socket.deliver(data));
+	}
+
+	/**
+	 * Receives every frame the client sends on this connection.
+	 * @returns A function to remove the listener.
+	 */
+	onMessage(listener: (frame: string) => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Closes the connection from the server side; the client reconnects with its usual backoff.
+	 */
+	close(code = 1006, reason = ""): void {
+		this.socket.close(code, reason);
+	}
+
+	/** @internal */
+	receive(frame: string): void {
+		for (const listener of [...this.listeners]) {
+			listener(frame);
+		}
+	}
+}
+
+class MemorySocket extends InProcessSocket {
+	peer: MemoryPeer | null = null;
+
+	constructor(onOpen: (socket: MemorySocket) => void) {
+		super();
+		queueMicrotask(() => this.opened() && onOpen(this));
+	}
+
+	send(data: string): void {
+		if (this.readyState !== this.OPEN) return;
+		const peer = this.peer;
+		queueMicrotask(() => peer?.receive(data));
+	}
+
+	close(code = 1000, reason = ""): void {
+		this.closeSoon(code, reason);
+	}
+
+	deliver(data: string): void {
+		this.received(data);
+	}
+}
+
+/**
+ * Connects a client to handlers in the same process, without sockets or ports. For tests: every connection attempt
+ * is handed to the `onConnection` listeners as a MemoryPeer that can answer frames, push notifications and drop the connection.
+ */
+export class MemoryTransport implements Transport {
+	private readonly peers: MemoryPeer[] = [];
+	private readonly connectionListeners = new Set<(peer: MemoryPeer) => void>();
+
+	/**
+	 * @param onConnection Optional listener for new connections, as registered with `onConnection`.
+	 */
+	constructor(onConnection?: (peer: MemoryPeer) => void) {
+		onConnection && this.connectionListeners.add(onConnection);
+	}
+
+	/**
+	 * Connections that are still open, oldest first.
+	 */
+	get connections(): MemoryPeer[] {
+		return this.peers.filter((peer) => !peer.closed);
+	}
+
+	/**
+	 * Receives every connection the client opens, including reconnects.
+	 * @returns A function to remove the listener.
+	 */
+	onConnection(listener: (peer: MemoryPeer) => void): () => void {
+		this.connectionListeners.add(listener);
+		return () => this.connectionListeners.delete(listener);
+	}
+
+	open(url: string): TransportSocket {
+		return new MemorySocket((socket) => {
+			const peer = new MemoryPeer(url, socket);
+			socket.peer = peer;
+			this.peers.push(peer);
+			for (const listener of [...this.connectionListeners]) {
+				listener(peer);
+			}
+		});
+	}
+}
@@ -0,0 +1,263 @@
+import { WebSocketServer, type WebSocket as Socket } from "ws";
+import type { AddressInfo } from "net";
+
+export type MockClearnodeOptions = {
+	/**
+	 * Port to listen on. Defaults to 0, which picks a free port.
+	 */
+	port?: number;
+	/**
+	 * Delay in milliseconds before every response and push. Defaults to 0.
+	 */
+	latencyMs?: number;
+	/**
+	 * Reject methods other than auth and ping with "authentication required" until the connection authenticated.
+	 * Defaults to false.
+	 */
+	requireAuth?: boolean;
+	/**
+	 * Challenge and JWT issued by the built-in auth handlers.
+	 */
+	auth?: {
+		challenge?: string;
+		jwtToken?: string;
+	};
+};
+
+/**
+ * A request received by the mock, as sent in the `{ req: [id, method, params, timestamp], sig }` envelope.
+ */
+export type MockRequest = {
+	id: number;
+	method: string;
+	params: any;
+	timestamp: number;
+	sig: string[];
+	/**
+	 * Replies to this request with any method, e.g. `auth_challenge` for `auth_request`.
+	 */
+	reply: (method: string, params: unknown) => void;
+};
+
+/**
+ * Answers a request. The returned value is sent as the params of a response with the request's method;
+ * a thrown error is sent as an `error` frame. Return `undefined` without calling `request.reply` to leave the request unanswered.
+ */
+export type MockHandler = (params: any, request: MockRequest) => unknown | Promise<unknown>;
+
+type Session = {
+	address: string;
+	sessionKey: string;
+};
+
+const DEFAULT_CHALLENGE = "mock-challenge";
+const DEFAULT_JWT = "mock-jwt";
+const AUTH_METHODS = new Set(["auth_request", "auth_verify", "ping"]);
+
+/**
+ * In-process clearnode for tests and offline development.
+ * Speaks the request envelope, runs the auth challenge flow, answers scripted methods,
+ * pushes notifications on demand and can simulate dropped connections and latency. Node only.
+ */
+export class MockClearnode {
+	/**
+	 * Every request received, in order.
+	 */
+	readonly requests: MockRequest[] = [];
+	/**
+	 * Delay in milliseconds before every response and push.
+	 */
+	latencyMs: number;
+	private handlers: Map<string, MockHandler> = new Map();
+	private sockets: Set<Socket> = new Set();
+	private authenticated: WeakSet<Socket> = new WeakSet();
+	private session: Session | null = null;
+	private requestWaiters: Array<{ method: string; resolve: (request: MockRequest) => void }> = [];
+	private connectionWaiters: Array<() => void> = [];
+	private readonly requireAuth: boolean;
+	private readonly challenge: string;
+	private readonly jwtToken: string;
+
+	private constructor(private readonly server: WebSocketServer, options?: MockClearnodeOptions) {
+		this.latencyMs = options?.latencyMs ?? 0;
+		this.requireAuth = options?.requireAuth ?? false;
+		this.challenge = options?.auth?.challenge ?? DEFAULT_CHALLENGE;
+		this.jwtToken = options?.auth?.jwtToken ?? DEFAULT_JWT;
+		server.on("connection", (socket) => this.accept(socket));
+	}
+
+	/**
+	 * Starts listening on localhost.
+	 * @param options Port, latency and auth settings
+	 * @returns Promise resolving once the server accepts connections
+	 */
+	static async start(options?: MockClearnodeOptions): Promise<MockClearnode> {
+		const server = new WebSocketServer({ host: "127.0.0.1", port: options?.port ?? 0 });
+		await new Promise<void>((resolve, reject) => {
+			server.once("listening", resolve);
+			server.once("error", reject);
+		});
+		return new MockClearnode(server, options);
+	}
+
+	/**
+	 * Websocket URL to pass as `ClientOptions.url`.
+	 */
+	get url(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `ws://127.0.0.1:${port}`;
+	}
+
+	/**
+	 * Number of open client connections.
+	 */
+	get connectionCount(): number {
+		return this.sockets.size;
+	}
+
+	/**
+	 * Scripts the answer to a method, replacing any previous handler including the built-in auth and ping handlers.
+	 * @param method RPC method name
+	 * @param handler Handler, or fixed result params
+	 */
+	handle(method: string, handler: MockHandler | object): this {
+		this.handlers.set(method, typeof handler === "function" ? (handler as MockHandler) : () => handler);
+		return this;
+	}
+
+	/**
+	 * Sends a server push notification to every open connection.
+	 * @param method Notification method, e.g. "bu" for a balance update
+	 * @param params Notification params in wire format
+	 */
+	push(method: string, params: unknown): void {
+		for (const socket of this.sockets) {
+			this.send(socket, 0, method, params);
+		}
+	}
+
+	/**
+	 * Abruptly terminates every open connection, as a network failure would. Clients reconnect as usual.
+	 */
+	drop(): void {
+		for (const socket of this.sockets) {
+			socket.terminate();
+		}
+	}
+
+	/**
+	 * Resolves with the next request received for a method.
+	 */
+	waitForRequest(method: string): Promise<MockRequest> {
+		return new Promise((resolve) => this.requestWaiters.push({ method, resolve }));
+	}
+
+	/**
+	 * Resolves once a client connects, immediately if one is already connected.
+	 */
+	waitForConnection(): Promise<void> {
+		if (this.sockets.size > 0) return Promise.resolve();
+		return new Promise((resolve) => this.connectionWaiters.push(resolve));
+	}
+
+	/**
+	 * Terminates every connection and stops listening.
+	 */
+	async close(): Promise<void> {
+		this.drop();
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	private accept(socket: Socket): void {
+		this.sockets.add(socket);
+		socket.on("close", () => this.sockets.delete(socket));
+		socket.on("message", (data) => this.receive(socket, data.toString()));
+		for (const resolve of this.connectionWaiters.splice(0)) {
+			resolve();
+		}
+	}
+
+	private async receive(socket: Socket, data: string): Promise<void> {
+		let frame: { req?: [number, string, any, number]; sig?: string[] };
+		try {
+			frame = JSON.parse(data);
+		} catch {
+			return;
+		}
+		if (!Array.isArray(frame.req)) return;
+
+		const [id, method, params, timestamp] = frame.req;
+		let replied = false;
+		const request: MockRequest = {
+			id,
+			method,
+			params: params ?? {},
+			timestamp,
+			sig: frame.sig ?? [],
+			reply: (replyMethod, replyParams) => {
+				replied = true;
+				this.send(socket, id, replyMethod, replyParams);
+			},
+		};
+		this.requests.push(request);
+		const waiter = this.requestWaiters.findIndex((w) => w.method === method);
+		if (waiter !== -1) {
+			this.requestWaiters.splice(waiter, 1)[0].resolve(request);
+		}
+
+		if (this.requireAuth && !AUTH_METHODS.has(method) && !this.authenticated.has(socket)) {
+			request.reply("error", { error: "authentication required" });
+			return;
+		}
+
+		const handler = this.handlers.get(method) ?? this.defaultHandler(socket, method);
+		if (!handler) {
+			request.reply("error", { error: `unsupported method ${method}` });
+			return;
+		}
+		try {
+			const result = await handler(request.params, request);
+			if (!replied && result !== undefined) request.reply(method, result);
+		} catch (error) {
+			request.reply("error", { error: (error as Error).message });
+		}
+	}
+
+	private defaultHandler(socket: Socket, method: string): MockHandler | undefined {
+		switch (method) {
+			case "ping":
+				return (_params, request) => request.reply("pong", {});
+			case "auth_request":
+				return (params, request) => {
+					this.session = { address: params.address, sessionKey: params.session_key };
+					request.reply("auth_challenge", { challenge_message: this.challenge });
+				};
+			case "auth_verify":
+				return (params) => {
+					if (params.jwt !== undefined ? params.jwt !== this.jwtToken : params.challenge !== this.challenge) {
+						throw new Error(params.jwt !== undefined ? "invalid jwt" : "invalid challenge");
+					}
+					if (!this.session) throw new Error("no auth request");
+					this.authenticated.add(socket);
+					return {
+						address: this.session.address,
+						session_key: this.session.sessionKey,
+						success: true,
+						jwt_token: this.jwtToken,
+					};
+				};
+			default:
+				return undefined;
+		}
+	}
+
+	private send(socket: Socket, id: number, method: string, params: unknown): void {
+		const data = JSON.stringify({ res: [id, method, params, Date.now()], sig: [] });
+		const deliver = () => socket.readyState === socket.OPEN && socket.send(data);
+		if (this.latencyMs > 0) {
+			setTimeout(deliver, this.latencyMs);
+		} else {
+			deliver();
+		}
+	}
+}
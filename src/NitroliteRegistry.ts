@@ -0,0 +1,129 @@
+import { NitroliteClient, type NitroliteClientConfig, type StateSigner } from "@erc7824/nitrolite";
+import { isAddress, type Address, type PublicClient, type WalletClient } from "viem";
+import type { RPCAsset, RPCNetworkInfo } from "./rpc";
+
+/**
+ * Selects the chain and token an on-chain operation runs against.
+ */
+export type ChainToken = {
+	chainId: number;
+	/**
+	 * Token address, or an asset symbol such as "usdc" resolved through `get_assets`.
+	 */
+	token: Address | string;
+};
+
+/**
+ * Wallet and RPC clients for one chain. Custody and adjudicator addresses come from the clearnode.
+ */
+export type NitroliteChainConfig = {
+	publicClient: PublicClient;
+	/**
+	 * Must have an account: it sends the chain's transactions.
+	 */
+	walletClient: WalletClient;
+	/**
+	 * Signs channel states, e.g. `new WalletStateSigner(walletClient)` from nitrolite.
+	 */
+	stateSigner: StateSigner;
+	/**
+	 * Challenge period in seconds for channels created on this chain; at least 3600.
+	 */
+	challengeDuration: bigint;
+};
+
+/**
+ * The client an on-chain operation runs on, the config it was built with and the token to pass to its token methods.
+ */
+export type NitroliteTarget = {
+	client: NitroliteClient;
+	config: NitroliteClientConfig;
+	/**
+	 * Always set for targets; for the `nitrolite` client without a target, the `token` option if given.
+	 */
+	token?: Address;
+};
+
+/**
+ * What the registry needs from the clearnode: `get_config` and `get_assets` results.
+ */
+export type ClearnodeNetworks = {
+	networks: RPCNetworkInfo[];
+	assets: RPCAsset[];
+};
+
+/**
+ * One NitroliteClient per chain, built on demand from the per-chain clients and the networks and assets
+ * the clearnode supports.
+ */
+export class NitroliteRegistry {
+	private networks: Promise<ClearnodeNetworks> | null = null;
+	private readonly clients = new Map<number, { client: NitroliteClient; config: NitroliteClientConfig }>();
+
+	constructor(
+		private readonly chains: Record<number, NitroliteChainConfig>,
+		private readonly load: () => Promise<ClearnodeNetworks>,
+		private readonly createClient: (config: NitroliteClientConfig) => NitroliteClient = (config) => new NitroliteClient(config)
+	) {}
+
+	/**
+	 * Returns the client of the target's chain, creating it on first use, and the token's address.
+	 * @throws Error when the chain has no config or the clearnode does not support the token on it
+	 */
+	async resolve(target: ChainToken): Promise<NitroliteTarget & { token: Address }> {
+		const chain = this.chains[target.chainId];
+		if (!chain) {
+			throw new Error(`No chain config for chain ${target.chainId}`);
+		}
+		const { networks, assets } = await this.lookup();
+		const asset = assets.find(
+			(a) =>
+				a.chainId === target.chainId &&
+				(isAddress(target.token) ? a.token.toLowerCase() === target.token.toLowerCase() : a.symbol.toLowerCase() === target.token.toLowerCase())
+		);
+		const network = networks.find((n) => n.chainId === target.chainId);
+		if (!asset || !network) {
+			throw new Error(`Token ${target.token} is not supported on chain ${target.chainId}`);
+		}
+		let entry = this.clients.get(network.chainId);
+		if (!entry) {
+			const config: NitroliteClientConfig = {
+				...chain,
+				chainId: network.chainId,
+				addresses: { custody: network.custodyAddress, adjudicator: network.adjudicatorAddress },
+			};
+			entry = { client: this.createClient(config), config };
+			this.clients.set(network.chainId, entry);
+		}
+		return { ...entry, token: asset.token };
+	}
+
+	chain(chainId: number): NitroliteChainConfig | undefined {
+		return this.chains[chainId];
+	}
+
+	/**
+	 * Chains and tokens usable through `resolve`: supported by the clearnode and configured locally.
+	 */
+	async supported(): Promise<RPCAsset[]> {
+		const { networks, assets } = await this.lookup();
+		return assets.filter((asset) => this.chains[asset.chainId] && networks.some((n) => n.chainId === asset.chainId));
+	}
+
+	/**
+	 * Forgets the clearnode networks and assets so the next lookup fetches them again.
+	 * Clients already created are kept.
+	 */
+	refresh(): void {
+		this.networks = null;
+	}
+
+	private lookup(): Promise<ClearnodeNetworks> {
+		if (!this.networks) {
+			this.networks = this.load();
+			// Let a failed lookup be retried by the next call
+			this.networks.catch(() => (this.networks = null));
+		}
+		return this.networks;
+	}
+}
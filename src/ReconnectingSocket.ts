@@ -0,0 +1,158 @@
+import { ExponentialBackoff } from "websocket-ts";
+import type { Transport, TransportSocket } from "./transport";
+
+type ReconnectingSocketBackoff = {
+	/** Delay before the first reconnect attempt, doubled after every failed one */
+	initialDelayMs: number;
+	/** Upper bound of the delay */
+	maxDelayMs: number;
+};
+
+type ReconnectingSocketCallbacks = {
+	/**
+	 * URL of the next connection attempt, asked for on every attempt so failover can switch endpoints.
+	 */
+	url: () => string;
+	onOpen: (url: string) => void;
+	/**
+	 * The connection dropped; a reconnect follows after the backoff.
+	 */
+	onClose: (url: string) => void;
+	/**
+	 * A reconnect attempt is starting after waiting `delayMs`.
+	 */
+	onRetry: (attempt: number, delayMs: number) => void;
+	onMessage: (data: string) => void;
+	/**
+	 * A reconnect attempt could not open a socket; the next attempt follows after the backoff.
+	 */
+	onError: (url: string, error: Error) => void;
+};
+
+/**
+ * A connection opened through a Transport that reopens itself whenever it drops, waiting out the backoff
+ * between attempts, until it is closed.
+ */
+export class ReconnectingSocket {
+	private socket: TransportSocket | null = null;
+	private currentUrl: string;
+	private retryTimer: ReturnType<typeof setTimeout> | null = null;
+	private closed = false;
+	private readonly backoff: ExponentialBackoff;
+
+	/**
+	 * Opens the first socket right away.
+	 * @throws What `transport.open` throws for the first socket
+	 */
+	constructor(
+		private readonly transport: Transport,
+		private readonly delays: ReconnectingSocketBackoff,
+		private readonly callbacks: ReconnectingSocketCallbacks
+	) {
+		this.backoff = new ExponentialBackoff(delays.initialDelayMs);
+		this.currentUrl = callbacks.url();
+		this.socket = this.listen(transport.open(this.currentUrl));
+	}
+
+	/**
+	 * URL of the current or last connection attempt.
+	 */
+	get url(): string {
+		return this.currentUrl;
+	}
+
+	/**
+	 * Sends a frame if the socket is open; frames sent while disconnected are dropped.
+	 */
+	send(data: string): void {
+		const socket = this.socket;
+		if (socket && socket.readyState === socket.OPEN) socket.send(data);
+	}
+
+	/**
+	 * Drops the current connection, e.g. one that stopped answering. A reconnect follows as after any drop.
+	 */
+	drop(code: number, reason: string): void {
+		const socket = this.socket;
+		if (!socket) return;
+		if (typeof socket.terminate === "function") {
+			// ws sockets can drop the connection without waiting for a close handshake that will never complete
+			socket.terminate();
+		} else {
+			socket.close(code, reason);
+		}
+	}
+
+	/**
+	 * Closes the connection for good and cancels a scheduled reconnect. No callbacks are made afterwards.
+	 */
+	close(code?: number, reason?: string): void {
+		this.closed = true;
+		this.retryTimer && clearTimeout(this.retryTimer);
+		this.retryTimer = null;
+		const socket = this.socket;
+		this.socket = null;
+		if (socket) {
+			this.unlisten(socket);
+			socket.close(code, reason);
+		}
+	}
+
+	private readonly handleOpen = () => {
+		this.backoff.reset();
+		this.callbacks.onOpen(this.currentUrl);
+	};
+
+	private readonly handleClose = () => {
+		this.socket && this.unlisten(this.socket);
+		this.socket = null;
+		this.callbacks.onClose(this.currentUrl);
+		this.scheduleRetry();
+	};
+
+	private readonly handleMessage = (event: { data: string }) => {
+		this.callbacks.onMessage(event.data);
+	};
+
+	// A close event follows every socket error; the listener keeps ws from throwing unhandled "error" events
+	private readonly handleError = () => {};
+
+	private scheduleRetry(): void {
+		if (this.closed) return;
+		const delayMs = Math.min(this.delays.maxDelayMs, this.backoff.current);
+		this.backoff.next();
+		const attempt = this.backoff.retries;
+		this.retryTimer = setTimeout(() => {
+			this.retryTimer = null;
+			this.callbacks.onRetry(attempt, delayMs);
+			this.reconnect();
+		}, delayMs);
+	}
+
+	private reconnect(): void {
+		// An onRetry listener may have closed the connection
+		if (this.closed) return;
+		this.currentUrl = this.callbacks.url();
+		try {
+			this.socket = this.listen(this.transport.open(this.currentUrl));
+		} catch (error) {
+			this.callbacks.onError(this.currentUrl, error as Error);
+			this.scheduleRetry();
+		}
+	}
+
+	private listen(socket: TransportSocket): TransportSocket {
+		socket.addEventListener("open", this.handleOpen);
+		socket.addEventListener("close", this.handleClose);
+		socket.addEventListener("message", this.handleMessage);
+		socket.addEventListener("error", this.handleError);
+		return socket;
+	}
+
+	// The error listener stays: closing a socket that is still connecting makes ws emit one more error
+	private unlisten(socket: TransportSocket): void {
+		socket.removeEventListener("open", this.handleOpen);
+		socket.removeEventListener("close", this.handleClose);
+		socket.removeEventListener("message", this.handleMessage);
+	}
+}
@@ -0,0 +1,179 @@
+import { InProcessSocket, WebSocketTransport, type Transport, type TransportSocket } from "./transport";
+
+/**
+ * Messages from the page to the shared worker.
+ */
+type PageMessage =
+	| { type: "open"; socketId: number; url: string }
+	| { type: "send"; socketId: number; data: string }
+	| { type: "close"; socketId: number; code?: number; reason?: string };
+
+/**
+ * Messages from the shared worker to the page.
+ */
+type WorkerMessage =
+	| { type: "open"; socketId: number }
+	| { type: "message"; socketId: number; data: string }
+	| { type: "close"; socketId: number; code: number; reason: string }
+	| { type: "error"; socketId: number; message: string };
+
+/**
+ * The port surface used on both ends; MessagePort satisfies it.
+ */
+type Port = {
+	postMessage(message: unknown): void;
+	addEventListener(type: "message", listener: (event: { data: any }) => void): void;
+	start?(): void;
+};
+
+/**
+ * Opens the client's sockets inside a SharedWorker running `serveSharedWorker`, so the socket outlives page reloads
+ * and is not throttled with background tabs. Frames are relayed over the worker's port.
+ * @example
+ * const worker = new SharedWorker(new URL("./clearnode.worker.js", import.meta.url), { type: "module" });
+ * const client = new Client({ url, transport: new SharedWorkerTransport(worker.port) });
+ */
+export class SharedWorkerTransport implements Transport {
+	private readonly sockets = new Map<number, WorkerSocket>();
+	private nextSocketId = 1;
+
+	constructor(private readonly port: Port) {
+		port.addEventListener("message", ({ data }) => this.handleMessage(data as WorkerMessage));
+		port.start?.();
+	}
+
+	open(url: string): TransportSocket {
+		const socketId = this.nextSocketId++;
+		const socket = new WorkerSocket((message) => this.port.postMessage({ ...message, socketId }), () => this.sockets.delete(socketId));
+		this.sockets.set(socketId, socket);
+		this.port.postMessage({ type: "open", socketId, url } satisfies PageMessage);
+		return socket;
+	}
+
+	private handleMessage(message: WorkerMessage): void {
+		const socket = this.sockets.get(message.socketId);
+		if (!socket) return;
+		switch (message.type) {
+			case "open":
+				socket.handleOpen();
+				break;
+			case "message":
+				socket.handleData(message.data);
+				break;
+			case "close":
+				socket.handleClose(message.code, message.reason);
+				break;
+			case "error":
+				socket.handleError(message.message);
+				break;
+		}
+	}
+}
+
+type Outgoing = { type: "send"; data: string } | { type: "close"; code?: number; reason?: string };
+
+class WorkerSocket extends InProcessSocket {
+	constructor(private readonly post: (message: Outgoing) => void, private readonly release: () => void) {
+		super();
+	}
+
+	send(data: string): void {
+		if (this.readyState !== this.OPEN) return;
+		this.post({ type: "send", data });
+	}
+
+	close(code = 1000, reason = ""): void {
+		if (this.readyState >= 2) return;
+		this.post({ type: "close", code, reason });
+		this.release();
+		this.closeSoon(code, reason);
+	}
+
+	handleOpen(): void {
+		this.opened();
+	}
+
+	handleData(data: string): void {
+		this.received(data);
+	}
+
+	handleClose(code: number, reason: string): void {
+		this.release();
+		this.closed(code, reason);
+	}
+
+	handleError(message: string): void {
+		this.emit("error", { type: "error", message });
+	}
+}
+
+/**
+ * The worker scope surface used by `serveSharedWorker`; SharedWorkerGlobalScope satisfies it.
+ */
+export type SharedWorkerScope = {
+	addEventListener(type: "connect", listener: (event: { ports: readonly Port[] }) => void): void;
+};
+
+/**
+ * Serves SharedWorkerTransport from inside a SharedWorker: opens sockets through `transport` for every connected page
+ * and relays their frames.
+ * @param scope The worker's global scope, `self`.
+ * @param transport Opens the actual sockets. Defaults to WebSocketTransport.
+ * @example
+ * // clearnode.worker.ts
+ * serveSharedWorker(self as unknown as SharedWorkerScope);
+ */
+export function serveSharedWorker(scope: SharedWorkerScope, transport: Transport = new WebSocketTransport()): void {
+	const prepared = transport.prepare?.() ?? Promise.resolve();
+	scope.addEventListener("connect", ({ ports }) => {
+		for (const port of ports) {
+			servePort(port, transport, prepared);
+		}
+	});
+}
+
+function servePort(port: Port, transport: Transport, prepared: Promise<void>): void {
+	const sockets = new Map<number, TransportSocket>();
+	// Sockets the page closed while the transport was still being prepared
+	const cancelled = new Set<number>();
+	const post = (message: WorkerMessage) => port.postMessage(message);
+
+	const open = async (socketId: number, url: string) => {
+		let socket: TransportSocket;
+		try {
+			await prepared;
+			if (cancelled.delete(socketId)) return;
+			socket = transport.open(url);
+		} catch (error) {
+			post({ type: "error", socketId, message: error instanceof Error ? error.message : String(error) });
+			post({ type: "close", socketId, code: 1006, reason: "" });
+			return;
+		}
+		sockets.set(socketId, socket);
+		socket.addEventListener("open", () => post({ type: "open", socketId }));
+		socket.addEventListener("message", (event) => post({ type: "message", socketId, data: String(event.data) }));
+		socket.addEventListener("error", (event) => post({ type: "error", socketId, message: String(event?.message ?? "WebSocket error") }));
+		socket.addEventListener("close", (event) => {
+			sockets.delete(socketId);
+			post({ type: "close", socketId, code: event?.code ?? 1006, reason: event?.reason ?? "" });
+		});
+	};
+
+	port.addEventListener("message", ({ data }) => {
+		const message = data as PageMessage;
+		switch (message.type) {
+			case "open":
+				void open(message.socketId, message.url);
+				break;
+			case "send":
+				sockets.get(message.socketId)?.send(message.data);
+				break;
+			case "close":
+				if (!sockets.has(message.socketId)) cancelled.add(message.socketId);
+				sockets.get(message.socketId)?.close(message.code, message.reason);
+				sockets.delete(message.socketId);
+				break;
+		}
+	});
+	port.start?.();
+}
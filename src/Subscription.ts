@@ -0,0 +1,126 @@
+import { SubscriptionOverflowError } from "./errors";
+
+export type SubscriptionOptions = {
+	/**
+	 * Maximum number of updates buffered while the consumer is busy. Defaults to 100.
+	 */
+	bufferSize?: number;
+	/**
+	 * What to do when the buffer is full:
+	 * - "drop" discards the oldest buffered update (default)
+	 * - "error" ends the iteration with a SubscriptionOverflowError
+	 */
+	overflow?: "drop" | "error";
+	/**
+	 * Ends the iteration when aborted.
+	 */
+	signal?: AbortSignal;
+};
+
+type Waiter<T> = {
+	resolve: (result: IteratorResult<T>) => void;
+	reject: (reason?: any) => void;
+};
+
+/**
+ * Async iterator over a stream of server push updates, backed by a bounded buffer.
+ * Ends when `close()` is called, the signal aborts, the consumer breaks out of `for await`, or the client disconnects.
+ */
+export class Subscription<T> implements AsyncIterableIterator<T> {
+	private buffer: T[] = [];
+	private waiters: Array<Waiter<T>> = [];
+	private error: Error | null = null;
+	private isClosed = false;
+	private readonly bufferSize: number;
+	private readonly overflow: "drop" | "error";
+	private readonly signal?: AbortSignal;
+	private readonly unsubscribe: () => void;
+	private readonly onAbort = () => this.close();
+
+	/**
+	 * @param source Registers the push callback with the update source and returns a function that unregisters it.
+	 * @param options Buffering and cancellation options
+	 */
+	constructor(source: (push: (value: T) => void) => () => void, options?: SubscriptionOptions) {
+		this.bufferSize = options?.bufferSize ?? 100;
+		this.overflow = options?.overflow ?? "drop";
+		this.signal = options?.signal;
+		this.unsubscribe = source((value) => this.push(value));
+		if (this.signal?.aborted) {
+			this.close();
+		} else {
+			this.signal?.addEventListener("abort", this.onAbort, { once: true });
+		}
+	}
+
+	/**
+	 * Whether the subscription has ended and no longer receives updates.
+	 */
+	get closed(): boolean {
+		return this.isClosed;
+	}
+
+	next(): Promise<IteratorResult<T>> {
+		if (this.buffer.length > 0) {
+			return Promise.resolve({ value: this.buffer.shift()!, done: false });
+		}
+		if (this.error) {
+			const error = this.error;
+			this.error = null;
+			return Promise.reject(error);
+		}
+		if (this.isClosed) {
+			return Promise.resolve({ value: undefined, done: true });
+		}
+		return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+	}
+
+	/**
+	 * Called by `for await` when the consumer breaks out of the loop.
+	 */
+	return(): Promise<IteratorResult<T>> {
+		this.close();
+		this.buffer = [];
+		return Promise.resolve({ value: undefined, done: true });
+	}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+		return this;
+	}
+
+	/**
+	 * Stops receiving updates. Already buffered updates are still delivered before the iteration ends.
+	 */
+	close(): void {
+		if (this.isClosed) return;
+		this.isClosed = true;
+		this.unsubscribe();
+		this.signal?.removeEventListener("abort", this.onAbort);
+		for (const waiter of this.waiters.splice(0)) {
+			waiter.resolve({ value: undefined, done: true });
+		}
+	}
+
+	private push(value: T): void {
+		if (this.isClosed) return;
+		const waiter = this.waiters.shift();
+		if (waiter) {
+			waiter.resolve({ value, done: false });
+			return;
+		}
+		if (this.buffer.length >= this.bufferSize) {
+			if (this.overflow === "error") {
+				this.fail(new SubscriptionOverflowError(this.bufferSize));
+				return;
+			}
+			this.buffer.shift();
+		}
+		this.buffer.push(value);
+	}
+
+	private fail(error: Error): void {
+		this.buffer = [];
+		this.error = error;
+		this.close();
+	}
+}
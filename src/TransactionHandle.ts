@@ -0,0 +1,177 @@
+import { CustodyAbi } from "@erc7824/nitrolite";
+import {
+	BaseError,
+	WaitForTransactionReceiptTimeoutError,
+	decodeErrorResult,
+	type Hash,
+	type Hex,
+	type PublicClient,
+	type TransactionReceipt,
+} from "viem";
+import { TimeoutError, TransactionReplacedError, TransactionRevertedError } from "./errors";
+import { TypedEmitter, type EventListener } from "./TypedEmitter";
+
+/**
+ * The public client calls a TransactionHandle needs; any viem PublicClient works, and tests can pass a fake.
+ */
+export type TransactionPublicClient = Pick<PublicClient, "waitForTransactionReceipt" | "getTransaction" | "call">;
+
+export type WaitForOptions = {
+	/**
+	 * Blocks, including the one the transaction is mined in, before it counts as confirmed. Defaults to 1.
+	 */
+	confirmations?: number;
+	/**
+	 * Rejects with TimeoutError when the transaction is not confirmed in time. Defaults to no timeout.
+	 */
+	timeoutMs?: number;
+	/**
+	 * Receipt polling interval. Defaults to the public client's.
+	 */
+	pollingIntervalMs?: number;
+};
+
+export type TransactionStatus = "pending" | "confirmed" | "reverted" | "replaced";
+
+export type TransactionEvents = {
+	/**
+	 * Watching started; the transaction is not confirmed yet.
+	 */
+	pending: { hash: Hash };
+	/**
+	 * The transaction (or its sped-up replacement) succeeded and reached the requested confirmations.
+	 */
+	confirmed: { hash: Hash; receipt: TransactionReceipt; confirmations: number };
+	/**
+	 * The transaction was mined but reverted. `reason` is the decoded custody-contract error when available.
+	 */
+	reverted: { hash: Hash; receipt: TransactionReceipt; reason: string | null };
+	/**
+	 * Another transaction with the same nonce was mined. A "repriced" replacement is the same call with a higher fee,
+	 * so watching continues with it; "replaced" and "cancelled" end the watch.
+	 */
+	replaced: { hash: Hash; replacement: Hash; reason: "repriced" | "replaced" | "cancelled" };
+};
+
+/**
+ * Tracks a sent transaction until it is confirmed, reverts or is replaced.
+ * Watching starts right away; `wait()` resolves with the receipt once confirmed and rejects with
+ * TransactionRevertedError, TransactionReplacedError or TimeoutError otherwise.
+ */
+export class TransactionHandle {
+	private events = new TypedEmitter<TransactionEvents>();
+	private currentStatus: TransactionStatus = "pending";
+	private result: Promise<TransactionReceipt>;
+
+	constructor(readonly hash: Hash, private readonly publicClient: TransactionPublicClient, private readonly options?: WaitForOptions) {
+		// Start on the next microtask so listeners registered right after construction see every event
+		this.result = Promise.resolve().then(() => this.watch());
+		// Consumers may only listen to events; don't surface the rejection as unhandled
+		this.result.catch(() => undefined);
+	}
+
+	get status(): TransactionStatus {
+		return this.currentStatus;
+	}
+
+	wait(): Promise<TransactionReceipt> {
+		return this.result;
+	}
+
+	on<K extends keyof TransactionEvents>(event: K, listener: EventListener<TransactionEvents[K]>): () => void {
+		return this.events.on(event, listener);
+	}
+
+	once<K extends keyof TransactionEvents>(event: K, listener: EventListener<TransactionEvents[K]>): () => void {
+		return this.events.once(event, listener);
+	}
+
+	off<K extends keyof TransactionEvents>(event: K, listener: EventListener<TransactionEvents[K]>): void {
+		this.events.off(event, listener);
+	}
+
+	private async watch(): Promise<TransactionReceipt> {
+		const confirmations = this.options?.confirmations ?? 1;
+		this.events.emit("pending", { hash: this.hash });
+		let replacement: { hash: Hash; reason: "repriced" | "replaced" | "cancelled" } | null = null;
+		let receipt: TransactionReceipt;
+		try {
+			receipt = await this.publicClient.waitForTransactionReceipt({
+				hash: this.hash,
+				confirmations,
+				timeout: this.options?.timeoutMs,
+				pollingInterval: this.options?.pollingIntervalMs,
+				onReplaced: ({ reason, transaction }) => {
+					replacement = { hash: transaction.hash, reason };
+					this.events.emit("replaced", { hash: this.hash, replacement: transaction.hash, reason });
+				},
+			});
+		} catch (error) {
+			if (error instanceof WaitForTransactionReceiptTimeoutError) {
+				throw new TimeoutError(`Transaction ${this.hash} not confirmed`, this.options?.timeoutMs ?? 0);
+			}
+			throw error;
+		}
+		// Narrowing is lost across the callback assignment
+		const replaced = replacement as { hash: Hash; reason: "repriced" | "replaced" | "cancelled" } | null;
+		if (replaced && replaced.reason !== "repriced") {
+			this.currentStatus = "replaced";
+			throw new TransactionReplacedError(this.hash, replaced.hash, replaced.reason);
+		}
+		if (receipt.status === "reverted") {
+			this.currentStatus = "reverted";
+			const reason = await this.revertReason(receipt);
+			this.events.emit("reverted", { hash: this.hash, receipt, reason });
+			throw new TransactionRevertedError(this.hash, reason);
+		}
+		this.currentStatus = "confirmed";
+		this.events.emit("confirmed", { hash: this.hash, receipt, confirmations });
+		return receipt;
+	}
+
+	/**
+	 * Replays the transaction at its block to recover the revert data, then decodes it against the custody ABI.
+	 */
+	private async revertReason(receipt: TransactionReceipt): Promise<string | null> {
+		try {
+			const transaction = await this.publicClient.getTransaction({ hash: receipt.transactionHash });
+			await this.publicClient.call({
+				account: transaction.from,
+				to: transaction.to,
+				data: transaction.input,
+				value: transaction.value,
+				blockNumber: receipt.blockNumber,
+			});
+			return null;
+		} catch (error) {
+			return decodeRevertReason(error);
+		}
+	}
+}
+
+/**
+ * Decodes the custody-contract error (or a plain `revert("...")` string) carried by a failed call.
+ */
+export function decodeRevertReason(error: unknown): string | null {
+	const data = revertData(error);
+	if (!data) return null;
+	try {
+		const { errorName, args } = decodeErrorResult({ abi: CustodyAbi, data });
+		if (errorName === "Error") return String(args?.[0]);
+		return args?.length ? `${errorName}(${args.map(String).join(", ")})` : errorName;
+	} catch {
+		return null;
+	}
+}
+
+function revertData(error: unknown): Hex | null {
+	if (!(error instanceof BaseError)) return null;
+	const withData = error.walk((e) => typeof revertDataOf(e) === "string") as unknown;
+	return withData ? revertDataOf(withData) : null;
+}
+
+function revertDataOf(error: unknown): Hex | null {
+	const data = (error as { data?: Hex | { data?: Hex } })?.data;
+	const hex = typeof data === "object" ? data?.data : data;
+	return typeof hex === "string" && hex.startsWith("0x") ? hex : null;
+}
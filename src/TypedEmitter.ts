@@ -0,0 +1,74 @@
+export type EventListener<T> = (payload: T) => void;
+
+type Registration<T> = {
+	listener: EventListener<T>;
+	once: boolean;
+};
+
+/**
+ * Minimal typed event emitter. Avoids Node's `events` module so the SDK keeps working in the browser.
+ */
+export class TypedEmitter<Events extends Record<string, any>> {
+	private registrations: { [K in keyof Events]?: Array<Registration<Events[K]>> } = {};
+
+	/**
+	 * @param onListenerError Receives errors thrown by listeners. Defaults to ignoring them.
+	 */
+	constructor(private readonly onListenerError: (error: unknown) => void = () => undefined) {}
+
+	/**
+	 * Register a listener for an event.
+	 * @returns A function to remove the listener.
+	 */
+	on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+		(this.registrations[event] ??= []).push({ listener, once: false });
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Register a listener that is removed after its first invocation.
+	 * @returns A function to remove the listener.
+	 */
+	once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+		(this.registrations[event] ??= []).push({ listener, once: true });
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Remove a listener previously registered with `on` or `once`.
+	 */
+	off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+		const registrations = this.registrations[event];
+		if (!registrations) return;
+		const index = registrations.findIndex((r) => r.listener === listener);
+		if (index > -1) {
+			registrations.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Number of listeners registered for an event.
+	 */
+	listenerCount<K extends keyof Events>(event: K): number {
+		return this.registrations[event]?.length ?? 0;
+	}
+
+	/**
+	 * Invoke every listener registered for an event.
+	 * @returns Whether any listener was registered.
+	 */
+	emit<K extends keyof Events>(event: K, payload: Events[K]): boolean {
+		const registrations = this.registrations[event];
+		if (!registrations || registrations.length === 0) return false;
+		this.registrations[event] = registrations.filter((r) => !r.once);
+		for (const { listener } of registrations) {
+			try {
+				listener(payload);
+			} catch (error) {
+				// Don't let listener errors break other listeners
+				this.onListenerError(error);
+			}
+		}
+		return true;
+	}
+}
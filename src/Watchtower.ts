@@ -0,0 +1,196 @@
+import { CustodyAbi, type ChannelId, type Hash, type State } from "@erc7824/nitrolite";
+import type { Address, PublicClient } from "viem";
+import type { Client } from "./Client";
+import type { ChannelStore } from "./ChannelStore";
+import { TypedEmitter, type EventListener } from "./TypedEmitter";
+
+/**
+ * A custody-contract `Challenged` event.
+ */
+export type ChallengeEvent = {
+	channelId: ChannelId;
+	/**
+	 * Version of the state the channel was challenged with.
+	 */
+	version: bigint;
+	/**
+	 * Unix timestamp in seconds at which the challenge period ends and the challenged state becomes final.
+	 */
+	expiration: bigint;
+	txHash?: Hash;
+};
+
+/**
+ * Delivers custody-contract challenge events to the watchtower.
+ */
+export interface ChallengeEventSource {
+	/**
+	 * Starts delivering events to `onChallenge`.
+	 * @returns A function that stops the delivery.
+	 */
+	subscribe(onChallenge: (event: ChallengeEvent) => void): () => void;
+}
+
+/**
+ * Watches the custody contract for `Challenged` events through a viem public client.
+ */
+export class CustodyChallengeSource implements ChallengeEventSource {
+	constructor(private readonly publicClient: PublicClient, private readonly custodyAddress: Address) {}
+
+	subscribe(onChallenge: (event: ChallengeEvent) => void): () => void {
+		return this.publicClient.watchContractEvent({
+			address: this.custodyAddress,
+			abi: CustodyAbi,
+			eventName: "Challenged",
+			onLogs: (logs: any[]) => {
+				for (const log of logs) {
+					onChallenge({
+						channelId: log.args.channelId,
+						version: log.args.state.version,
+						expiration: log.args.expiration,
+						txHash: log.transactionHash,
+					});
+				}
+			},
+		});
+	}
+}
+
+export type WatchtowerOptions = {
+	source: ChallengeEventSource;
+	/**
+	 * Signed states to defend the channels with. Defaults to the client's `channelStore`.
+	 */
+	store?: ChannelStore;
+	/**
+	 * How to answer a challenge with a stale state: checkpoint the newer state, which ends the dispute,
+	 * or challenge with it, which restarts the challenge period. Defaults to "checkpoint".
+	 */
+	response?: "checkpoint" | "challenge";
+	/**
+	 * Delay before a failed response is retried while the challenge period lasts. Defaults to 5000.
+	 */
+	retryDelayMs?: number;
+};
+
+export type WatchtowerEvents = {
+	/**
+	 * A channel in the store was challenged.
+	 */
+	challenge: ChallengeEvent;
+	/**
+	 * The challenge used our latest state or a newer one, so there is nothing to answer.
+	 */
+	accepted: ChallengeEvent;
+	/**
+	 * A newer state went on-chain in answer to the challenge.
+	 */
+	responded: { channelId: ChannelId; version: bigint; action: "checkpoint" | "challenge"; txHash: Hash };
+	/**
+	 * Reading the store or answering the challenge failed. `willRetry` is false once the challenge period is too close to its end.
+	 */
+	failed: { channelId: ChannelId; error: Error; willRetry: boolean };
+};
+
+/**
+ * Defends channels against challenges with stale states: compares each challenged version with the latest
+ * signed state in the ChannelStore and puts the newer state on-chain before the challenge period expires.
+ */
+export class Watchtower {
+	private readonly source: ChallengeEventSource;
+	private readonly store: ChannelStore;
+	private readonly response: "checkpoint" | "challenge";
+	private readonly retryDelayMs: number;
+	private readonly events = new TypedEmitter<WatchtowerEvents>();
+	private readonly retries = new Set<ReturnType<typeof setTimeout>>();
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(private readonly client: Pick<Client, "checkpointChannel" | "challengeChannel" | "channelStore">, options: WatchtowerOptions) {
+		const store = options.store ?? client.channelStore;
+		if (!store) {
+			throw new Error("Watchtower needs a ChannelStore: pass `store` or configure `channelStore` on the client");
+		}
+		this.source = options.source;
+		this.store = store;
+		this.response = options.response ?? "checkpoint";
+		this.retryDelayMs = options.retryDelayMs ?? 5_000;
+	}
+
+	get running(): boolean {
+		return this.unsubscribe !== null;
+	}
+
+	start(): void {
+		if (this.unsubscribe) return;
+		this.unsubscribe = this.source.subscribe((event) => void this.handleChallenge(event));
+	}
+
+	stop(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		for (const timer of this.retries) clearTimeout(timer);
+		this.retries.clear();
+	}
+
+	on<K extends keyof WatchtowerEvents>(event: K, listener: EventListener<WatchtowerEvents[K]>): () => void {
+		return this.events.on(event, listener);
+	}
+
+	once<K extends keyof WatchtowerEvents>(event: K, listener: EventListener<WatchtowerEvents[K]>): () => void {
+		return this.events.once(event, listener);
+	}
+
+	off<K extends keyof WatchtowerEvents>(event: K, listener: EventListener<WatchtowerEvents[K]>): void {
+		this.events.off(event, listener);
+	}
+
+	private async handleChallenge(event: ChallengeEvent): Promise<void> {
+		let latest: State | undefined;
+		try {
+			latest = await this.store.latest(event.channelId);
+		} catch (error) {
+			// An unreadable store must not pass for a channel we hold no state of
+			this.fail(event, error as Error, () => this.handleChallenge(event));
+			return;
+		}
+		// Not one of our channels
+		if (!latest) return;
+		this.events.emit("challenge", event);
+		if (BigInt(latest.version) <= event.version) {
+			this.events.emit("accepted", event);
+			return;
+		}
+		await this.respond(event);
+	}
+
+	private async respond(event: ChallengeEvent): Promise<void> {
+		const { channelId } = event;
+		try {
+			const params =
+				this.response === "checkpoint"
+					? await this.store.checkpointParams(channelId)
+					: await this.store.challengeParams(channelId);
+			const txHash =
+				this.response === "checkpoint"
+					? await this.client.checkpointChannel(params)
+					: await this.client.challengeChannel(params);
+			this.events.emit("responded", { channelId, version: BigInt(params.candidateState.version), action: this.response, txHash });
+		} catch (error) {
+			this.fail(event, error as Error, () => this.respond(event));
+		}
+	}
+
+	/**
+	 * Reports a failed step and schedules `retry` while the challenge period lasts.
+	 */
+	private fail(event: ChallengeEvent, error: Error, retry: () => Promise<void>): void {
+		const willRetry = this.running && Date.now() + this.retryDelayMs < Number(event.expiration) * 1000;
+		this.events.emit("failed", { channelId: event.channelId, error, willRetry });
+		if (!willRetry) return;
+		const timer = setTimeout(() => {
+			this.retries.delete(timer);
+			void retry();
+		}, this.retryDelayMs);
+		this.retries.add(timer);
+	}
+}
@@ -0,0 +1,204 @@
+/**
+ * Base class for failures of the clearnode session authentication handshake.
+ */
+export class AuthError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "AuthError";
+	}
+}
+
+/**
+ * The clearnode refused the auth request or the signed challenge.
+ */
+export class AuthRejectedError extends AuthError {
+	constructor(message: string) {
+		super(message);
+		this.name = "AuthRejectedError";
+	}
+}
+
+/**
+ * The challenge or the requested session expired before the handshake completed.
+ */
+export class AuthExpiredError extends AuthError {
+	constructor(message: string) {
+		super(message);
+		this.name = "AuthExpiredError";
+	}
+}
+
+/**
+ * The offline queue is full; the request was not buffered.
+ */
+export class QueueOverflowError extends Error {
+	constructor(public readonly maxSize: number) {
+		super(`Request queue is full (max ${maxSize})`);
+		this.name = "QueueOverflowError";
+	}
+}
+
+/**
+ * A queued request was not sent before its deadline.
+ */
+export class QueueDeadlineError extends Error {
+	constructor(public readonly deadlineMs: number) {
+		super(`Queued request was not sent within ${deadlineMs}ms`);
+		this.name = "QueueDeadlineError";
+	}
+}
+
+/**
+ * A subscription's buffer overflowed with the "error" overflow policy.
+ */
+export class SubscriptionOverflowError extends Error {
+	constructor(public readonly bufferSize: number) {
+		super(`Subscription buffer overflowed (max ${bufferSize})`);
+		this.name = "SubscriptionOverflowError";
+	}
+}
+
+/**
+ * The available participant signers do not carry enough weight to reach the app session quorum.
+ */
+export class QuorumNotReachedError extends Error {
+	constructor(public readonly weight: number, public readonly quorum: number) {
+		super(`Signer weight ${weight} does not reach quorum ${quorum}`);
+		this.name = "QuorumNotReachedError";
+	}
+}
+
+/**
+ * Identifies the request an error belongs to.
+ */
+export type RequestContext = {
+	requestId?: number | string;
+	method?: string;
+};
+
+/**
+ * No response arrived in time, or the socket did not open in time.
+ */
+export class TimeoutError extends Error {
+	readonly requestId?: number | string;
+	readonly method?: string;
+
+	constructor(message: string, public readonly timeoutMs: number, context?: RequestContext) {
+		super(message);
+		this.name = "TimeoutError";
+		this.requestId = context?.requestId;
+		this.method = context?.method;
+	}
+}
+
+/**
+ * The socket closed before the request was answered.
+ */
+export class DisconnectedError extends Error {
+	readonly requestId?: number | string;
+	readonly method?: string;
+
+	constructor(context?: RequestContext) {
+		super("Disconnected");
+		this.name = "DisconnectedError";
+		this.requestId = context?.requestId;
+		this.method = context?.method;
+	}
+}
+
+/**
+ * The clearnode answered with an error.
+ */
+export class RpcError extends Error {
+	readonly requestId?: number | string;
+	readonly method?: string;
+	readonly code?: number;
+
+	constructor(message: string, context?: RequestContext & { code?: number }) {
+		super(message);
+		this.name = "RpcError";
+		this.requestId = context?.requestId;
+		this.method = context?.method;
+		this.code = context?.code;
+	}
+}
+
+/**
+ * A middleware's `onSend` hook blocked the frame, so it was never written to the socket.
+ */
+export class FrameBlockedError extends Error {
+	readonly requestId?: number | string;
+	readonly method?: string;
+
+	constructor(public readonly middleware: string | undefined, context?: RequestContext) {
+		super(`Frame blocked by ${middleware ? `middleware "${middleware}"` : "a middleware"}`);
+		this.name = "FrameBlockedError";
+		this.requestId = context?.requestId;
+		this.method = context?.method;
+	}
+}
+
+/**
+ * A method was called without the ClientOptions entry it needs: nitrolite config for on-chain methods,
+ * unless `option` names another one.
+ */
+export class NotConfiguredError extends Error {
+	constructor(public readonly operation: string, public readonly option = "nitrolite") {
+		super(
+			option === "nitrolite"
+				? `Nitrolite client not configured. Provide nitrolite config in ClientOptions to call ${operation}.`
+				: `${option} not configured. Provide ${option} in ClientOptions to call ${operation}.`
+		);
+		this.name = "NotConfiguredError";
+	}
+}
+
+/**
+ * An on-chain transaction could not be submitted or failed. The underlying error is kept as `cause`.
+ */
+export class ChainTransactionError extends Error {
+	constructor(public readonly operation: string, public readonly cause: unknown) {
+		super(`${operation} failed: ${(cause as { shortMessage?: string })?.shortMessage ?? (cause as Error)?.message ?? String(cause)}`);
+		this.name = "ChainTransactionError";
+	}
+}
+
+/**
+ * A signed channel state was rejected by the ChannelStore: stale version or a signature from a non-participant.
+ */
+export class InvalidStateError extends Error {
+	constructor(public readonly channelId: string, public readonly reason: string) {
+		super(`Invalid state for channel ${channelId}: ${reason}`);
+		this.name = "InvalidStateError";
+	}
+}
+
+/**
+ * The ChannelStore has no signed state of a channel to challenge or checkpoint with.
+ */
+export class StateNotFoundError extends Error {
+	constructor(public readonly channelId: string) {
+		super(`No signed state recorded for channel ${channelId}`);
+		this.name = "StateNotFoundError";
+	}
+}
+
+/**
+ * A watched transaction was mined but reverted. `reason` is the decoded custody-contract error when available.
+ */
+export class TransactionRevertedError extends Error {
+	constructor(public readonly hash: string, public readonly reason: string | null) {
+		super(`Transaction ${hash} reverted${reason ? `: ${reason}` : ""}`);
+		this.name = "TransactionRevertedError";
+	}
+}
+
+/**
+ * A watched transaction was dropped in favour of a different transaction with the same nonce.
+ */
+export class TransactionReplacedError extends Error {
+	constructor(public readonly hash: string, public readonly replacement: string, public readonly reason: "replaced" | "cancelled") {
+		super(`Transaction ${hash} was ${reason} by ${replacement}`);
+		this.name = "TransactionReplacedError";
+	}
+}
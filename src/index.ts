@@ -1,5 +1,94 @@
 export { Client } from "./Client";
-export type { ClientOptions, RequestObject, Json } from "./Client";
-export type { RPCMethod } from "@erc7824/nitrolite";
+export type {
+	ClientOptions,
+	RequestObject,
+	Json,
+	AuthenticateParams,
+	AuthSession,
+	ClientEvents,
+	RequestOptions,
+	ConnectionState,
+	AccountInfo,
+} from "./Client";
+export { AppSession } from "./AppSession";
+export type {
+	CreateAppSessionParams,
+	SubmitAppStateParams,
+	CloseAppSessionParams,
+	AppSessionState,
+	AppSessionEvents,
+} from "./AppSession";
+export type {
+	LedgerBalance,
+	LedgerEntry,
+	LedgerTransaction,
+	LedgerAllocation,
+	TransferParams,
+	GetLedgerEntriesParams,
+	GetLedgerTransactionsParams,
+} from "./ledger";
+export type { HeartbeatOptions, LatencyStats } from "./Heartbeat";
+export type { FailoverOptions, EndpointHealth } from "./EndpointPool";
+export { consoleLogger, noopLogger, METRICS } from "./logger";
+export type { Logger, LogLevel, Metrics } from "./logger";
+export { loggingMiddleware, timingMiddleware } from "./middleware";
+export { SessionRecorder, ReplayTransport, parseRecording } from "./recording";
+export type { RecordedFrame, SessionRecorderOptions, ReplayTransportOptions } from "./recording";
+export { WebSocketTransport, NodeTransport } from "./transport";
+export type {
+	Transport,
+	TransportSocket,
+	TransportEventType,
+	WebSocketTransportOptions,
+	NodeTransportOptions,
+} from "./transport";
+export { MemoryTransport, MemoryPeer } from "./MemoryTransport";
+export { SharedWorkerTransport, serveSharedWorker } from "./SharedWorkerTransport";
+export type { SharedWorkerScope } from "./SharedWorkerTransport";
+export type {
+	Middleware,
+	FrameContext,
+	LogEntry,
+	LoggingMiddlewareOptions,
+	RequestTiming,
+	TimingMiddlewareOptions,
+} from "./middleware";
+export { ChannelStore } from "./ChannelStore";
+export type { ChannelStoreOptions } from "./ChannelStore";
+export type { ChainToken, NitroliteChainConfig } from "./NitroliteRegistry";
+export { TransactionHandle, decodeRevertReason } from "./TransactionHandle";
+export type { TransactionEvents, TransactionStatus, TransactionPublicClient, WaitForOptions } from "./TransactionHandle";
+export type { TransactionPreview, UnsignedTransaction, BalanceChange, BalanceLocation } from "./prepare";
+export type { ChannelFlow, ChannelFlowKind, ChannelFlowStep, ChannelFlowResult } from "./ChannelLifecycle";
+export { Watchtower, CustodyChallengeSource } from "./Watchtower";
+export type { WatchtowerOptions, WatchtowerEvents, ChallengeEvent, ChallengeEventSource } from "./Watchtower";
+export { MemoryStorage, JsonFileStorage, IndexedDbStorage } from "./storage";
+export type { KeyValueStorage, AsyncKeyValueStore } from "./storage";
+export { DEFAULT_IDEMPOTENT_METHODS } from "./retry";
+export type { RetryPolicy } from "./retry";
+export { Subscription } from "./Subscription";
+export type { SubscriptionOptions } from "./Subscription";
+export {
+	AuthError,
+	AuthRejectedError,
+	AuthExpiredError,
+	QueueOverflowError,
+	QueueDeadlineError,
+	SubscriptionOverflowError,
+	QuorumNotReachedError,
+	TimeoutError,
+	DisconnectedError,
+	RpcError,
+	FrameBlockedError,
+	NotConfiguredError,
+	ChainTransactionError,
+	InvalidStateError,
+	StateNotFoundError,
+	TransactionRevertedError,
+	TransactionReplacedError,
+} from "./errors";
+export type { RequestContext } from "./errors";
+export type * from "./rpc";
+export { RPCMethod } from "@erc7824/nitrolite";
 
 
@@ -0,0 +1,102 @@
+import { formatUnits, parseUnits, type Address, type Hex } from "viem";
+import type { PaginationFilters, RPCAsset, RPCBalance, RPCLedgerEntry, RPCTransaction, RPCTxType } from "./rpc";
+
+/**
+ * A unified ledger balance, in the asset's smallest unit.
+ */
+export type LedgerBalance = {
+	asset: string;
+	amount: bigint;
+	decimals: number;
+};
+
+export type LedgerEntry = Omit<RPCLedgerEntry, "credit" | "debit"> & {
+	credit: bigint;
+	debit: bigint;
+	decimals: number;
+};
+
+export type LedgerTransaction = Omit<RPCTransaction, "amount"> & {
+	amount: bigint;
+	decimals: number;
+};
+
+/**
+ * Amount of an asset to transfer, in the asset's smallest unit.
+ */
+export type LedgerAllocation = {
+	asset: string;
+	amount: bigint;
+};
+
+export type TransferParams = {
+	/**
+	 * Wallet address of the recipient. Either this or `destinationUserTag` is required.
+	 */
+	destination?: Address;
+	destinationUserTag?: string;
+	allocations: LedgerAllocation[];
+};
+
+export type GetLedgerEntriesParams = {
+	/**
+	 * Ledger account to query: a wallet address or an app session id. Defaults to the authenticated account.
+	 */
+	accountId?: Address | Hex;
+	asset?: string;
+	wallet?: Address;
+};
+
+export type GetLedgerTransactionsParams = PaginationFilters & {
+	accountId: Address | Hex;
+	txType?: RPCTxType;
+	asset?: string;
+};
+
+/**
+ * Decimals of every asset symbol known to the clearnode. Symbols are shared across chains,
+ * so the first listing of a symbol wins.
+ */
+export function toAssetDecimals(assets: RPCAsset[]): Map<string, number> {
+	const decimals = new Map<string, number>();
+	for (const asset of assets) {
+		const symbol = asset.symbol.toLowerCase();
+		if (!decimals.has(symbol)) decimals.set(symbol, asset.decimals);
+	}
+	return decimals;
+}
+
+export function decimalsOf(decimals: Map<string, number>, asset: string): number {
+	const value = decimals.get(asset.toLowerCase());
+	if (value === undefined) {
+		throw new Error(`Unknown asset: ${asset}`);
+	}
+	return value;
+}
+
+export function toLedgerBalance(balance: RPCBalance, decimals: Map<string, number>): LedgerBalance {
+	const assetDecimals = decimalsOf(decimals, balance.asset);
+	return { asset: balance.asset, amount: parseUnits(balance.amount, assetDecimals), decimals: assetDecimals };
+}
+
+export function toLedgerEntry(entry: RPCLedgerEntry, decimals: Map<string, number>): LedgerEntry {
+	const assetDecimals = decimalsOf(decimals, entry.asset);
+	return {
+		...entry,
+		credit: parseUnits(entry.credit, assetDecimals),
+		debit: parseUnits(entry.debit, assetDecimals),
+		decimals: assetDecimals,
+	};
+}
+
+export function toLedgerTransaction(transaction: RPCTransaction, decimals: Map<string, number>): LedgerTransaction {
+	const assetDecimals = decimalsOf(decimals, transaction.asset);
+	return { ...transaction, amount: parseUnits(transaction.amount, assetDecimals), decimals: assetDecimals };
+}
+
+/**
+ * Formats an allocation as the decimal string amount the clearnode expects.
+ */
+export function formatAllocation(allocation: LedgerAllocation, decimals: Map<string, number>): RPCBalance {
+	return { asset: allocation.asset, amount: formatUnits(allocation.amount, decimalsOf(decimals, allocation.asset)) };
+}
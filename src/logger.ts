@@ -0,0 +1,90 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Receives the client's diagnostics. `fields` carries structured context such as the request id, method or error.
+ * Adapts to pino, winston or `console` with a few lines.
+ */
+export interface Logger {
+	debug(message: string, fields?: Record<string, unknown>): void;
+	info(message: string, fields?: Record<string, unknown>): void;
+	warn(message: string, fields?: Record<string, unknown>): void;
+	error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Receives the client's metrics. Names and labels are listed in METRICS.
+ */
+export interface Metrics {
+	/**
+	 * Adds one to a counter.
+	 */
+	increment(name: string, labels?: Record<string, string>): void;
+	/**
+	 * Records a sample of a histogram.
+	 */
+	observe(name: string, value: number, labels?: Record<string, string>): void;
+	/**
+	 * Sets a gauge.
+	 */
+	gauge(name: string, value: number, labels?: Record<string, string>): void;
+}
+
+/**
+ * Metrics reported by the client.
+ */
+export const METRICS = {
+	/**
+	 * Histogram of the time from writing a request to its response or failure, in milliseconds.
+	 * Labels: `method`, `outcome` ("ok", "error" or "timeout").
+	 */
+	requestDuration: "yellow_request_duration_ms",
+	/**
+	 * Counter of requests that got no response in time. Labels: `method`.
+	 */
+	requestTimeouts: "yellow_request_timeouts_total",
+	/**
+	 * Counter of reconnect attempts.
+	 */
+	reconnects: "yellow_reconnects_total",
+	/**
+	 * Gauge of requests written to the socket and awaiting a response.
+	 */
+	pendingRequests: "yellow_pending_requests",
+	/**
+	 * Counter of frames. Labels: `direction` ("send" or "receive"), `method`.
+	 */
+	messages: "yellow_messages_total",
+} as const;
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Discards everything. The default, so the library stays silent unless a logger is configured.
+ */
+export const noopLogger: Logger = {
+	debug: () => undefined,
+	info: () => undefined,
+	warn: () => undefined,
+	error: () => undefined,
+};
+
+export const noopMetrics: Metrics = {
+	increment: () => undefined,
+	observe: () => undefined,
+	gauge: () => undefined,
+};
+
+/**
+ * Logs to `console` at `level` and above.
+ * @param level Lowest level written. Defaults to "info".
+ */
+export function consoleLogger(level: LogLevel = "info"): Logger {
+	const threshold = LEVELS.indexOf(level);
+	const write =
+		(at: LogLevel) =>
+		(message: string, fields?: Record<string, unknown>): void => {
+			if (LEVELS.indexOf(at) < threshold) return;
+			fields ? console[at](message, fields) : console[at](message);
+		};
+	return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
@@ -0,0 +1,247 @@
+import { FrameBlockedError, type RequestContext } from "./errors";
+import { noopLogger, type Logger } from "./logger";
+
+/**
+ * The frame a middleware hook runs for, as read from its envelope before any middleware rewrote it.
+ */
+export type FrameContext = RequestContext & {
+	direction: "send" | "receive";
+	/**
+	 * Endpoint the client is connected to, or null before the first connection.
+	 */
+	url: string | null;
+};
+
+/**
+ * Hooks into every frame the client writes to or reads from the socket, including the auth handshake and heartbeat pings.
+ * Hooks may be async; frames still pass through the chain one at a time and in order.
+ */
+export type Middleware = {
+	/**
+	 * Shown in FrameBlockedError when this middleware blocks a frame.
+	 */
+	name?: string;
+	/**
+	 * Runs before a frame is written. Return a string to send instead, `null` to block the frame
+	 * (its request rejects with FrameBlockedError), or nothing to send it unchanged.
+	 */
+	onSend?: (frame: string, context: FrameContext) => string | null | void | Promise<string | null | void>;
+	/**
+	 * Runs before a received frame is parsed. Return a string to handle instead, `null` to drop the frame,
+	 * or nothing to handle it unchanged.
+	 */
+	onReceive?: (frame: string, context: FrameContext) => string | null | void | Promise<string | null | void>;
+	/**
+	 * Called when a request fails (timeout, disconnect, error response, blocked frame), a frame cannot be parsed,
+	 * or a hook of any middleware throws.
+	 */
+	onError?: (error: Error, context: RequestContext) => void;
+};
+
+/**
+ * Runs frames through the registered middlewares, in registration order for sent frames and in reverse for received ones,
+ * so the middleware registered first sees frames closest to the application.
+ */
+export class MiddlewareChain {
+	private readonly middlewares: Middleware[] = [];
+	private outbound: Promise<unknown> = Promise.resolve();
+	private inbound: Promise<unknown> = Promise.resolve();
+
+	constructor(private readonly logger: Logger = noopLogger) {}
+
+	get empty(): boolean {
+		return this.middlewares.length === 0;
+	}
+
+	use(middleware: Middleware): () => void {
+		this.middlewares.push(middleware);
+		return () => {
+			const index = this.middlewares.indexOf(middleware);
+			if (index > -1) {
+				this.middlewares.splice(index, 1);
+			}
+		};
+	}
+
+	/**
+	 * Resolves with the frame to write, rejecting with FrameBlockedError when a middleware blocked it.
+	 */
+	send(frame: string, context: FrameContext): Promise<string> {
+		const result = this.outbound.then(async () => {
+			let current = frame;
+			for (const middleware of [...this.middlewares]) {
+				if (!middleware.onSend) continue;
+				const next = await middleware.onSend(current, context);
+				if (next === null) throw new FrameBlockedError(middleware.name, context);
+				if (typeof next === "string") current = next;
+			}
+			return current;
+		});
+		this.outbound = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Resolves with the frame to handle, or null when a middleware dropped it.
+	 */
+	receive(frame: string, context: FrameContext): Promise<string | null> {
+		const result = this.inbound.then(async () => {
+			let current = frame;
+			for (const middleware of [...this.middlewares].reverse()) {
+				if (!middleware.onReceive) continue;
+				let next: string | null | void;
+				try {
+					next = await middleware.onReceive(current, context);
+				} catch (error) {
+					// A frame a middleware failed on is dropped like a blocked one
+					this.error(error as Error, context);
+					return null;
+				}
+				if (next === null) return null;
+				if (typeof next === "string") current = next;
+			}
+			return current;
+		});
+		this.inbound = result;
+		return result;
+	}
+
+	error(error: Error, context: RequestContext): void {
+		for (const middleware of [...this.middlewares]) {
+			try {
+				middleware.onError?.(error, context);
+			} catch (hookError) {
+				// Don't let middleware errors break other middlewares
+				this.logger.warn("Middleware error", { error: hookError, ...context });
+			}
+		}
+	}
+}
+
+/**
+ * Reads the request id and method from a `{ req: [...] }` or `{ res: [...] }` envelope.
+ */
+export function frameContext(frame: string): RequestContext {
+	try {
+		const parsed = JSON.parse(frame);
+		const envelope = parsed?.req ?? parsed?.res;
+		if (!Array.isArray(envelope)) return {};
+		return { requestId: envelope[0], method: envelope[1] };
+	} catch {
+		return {};
+	}
+}
+
+export const DEFAULT_REDACTED_KEYS = [
+	"sig",
+	"signature",
+	"signatures",
+	"server_signature",
+	"challenge",
+	"challenge_message",
+	"jwt",
+	"jwt_token",
+	"private_key",
+];
+
+export type LogEntry = FrameContext & {
+	/**
+	 * The parsed frame with secrets replaced by "[redacted]", or the raw frame when it is not JSON.
+	 */
+	frame: unknown;
+};
+
+export type LoggingMiddlewareOptions = {
+	/**
+	 * Receives one entry per frame. Defaults to `console.debug`.
+	 */
+	log?: (entry: LogEntry) => void;
+	/**
+	 * Receives failed requests and unparseable frames. Defaults to `console.error`.
+	 */
+	logError?: (error: Error, context: RequestContext) => void;
+	/**
+	 * Keys whose values are redacted at any depth. Defaults to signatures, auth challenges and JWTs.
+	 */
+	redact?: string[];
+};
+
+/**
+ * Logs every frame as a structured entry, with signatures, auth challenges and JWTs redacted.
+ */
+export function loggingMiddleware(options?: LoggingMiddlewareOptions): Middleware {
+	const redacted = new Set(options?.redact ?? DEFAULT_REDACTED_KEYS);
+	const log = options?.log ?? ((entry: LogEntry) => console.debug(entry));
+	const logError = options?.logError ?? ((error: Error, context: RequestContext) => console.error(error, context));
+	const write = (frame: string, context: FrameContext) => {
+		log({ ...context, frame: redactFrame(frame, redacted) });
+	};
+	return {
+		name: "logging",
+		onSend: write,
+		onReceive: write,
+		onError: logError,
+	};
+}
+
+/**
+ * Parses a frame and replaces the values under `keys`, at any depth, with "[redacted]". Arrays keep their length
+ * so the frame still has the shape of a valid envelope. Frames that are not JSON are returned as they are.
+ */
+export function redactFrame(frame: string, keys: Set<string>): unknown {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(frame);
+	} catch {
+		return frame;
+	}
+	const visit = (value: unknown): unknown => {
+		if (Array.isArray(value)) return value.map(visit);
+		if (value === null || typeof value !== "object") return value;
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, keys.has(key) ? redacted(entry) : visit(entry)])
+		);
+	};
+	return visit(parsed);
+}
+
+function redacted(value: unknown): unknown {
+	return Array.isArray(value) ? value.map(() => "[redacted]") : "[redacted]";
+}
+
+export type RequestTiming = {
+	requestId: number | string;
+	method?: string;
+	durationMs: number;
+	/**
+	 * Set when the request failed instead of being answered, e.g. with TimeoutError.
+	 */
+	error?: Error;
+};
+
+export type TimingMiddlewareOptions = {
+	onTiming: (timing: RequestTiming) => void;
+};
+
+/**
+ * Measures the time from sending each request to receiving its response or failing.
+ */
+export function timingMiddleware(options: TimingMiddlewareOptions): Middleware {
+	const started = new Map<number | string, { method?: string; at: number }>();
+	const finish = (requestId: number | string | undefined, error?: Error) => {
+		if (requestId === undefined) return;
+		const start = started.get(requestId);
+		if (!start) return;
+		started.delete(requestId);
+		const timing: RequestTiming = { requestId, method: start.method, durationMs: Date.now() - start.at };
+		options.onTiming(error ? { ...timing, error } : timing);
+	};
+	return {
+		name: "timing",
+		onSend: (_, { requestId, method }) => {
+			if (requestId !== undefined) started.set(requestId, { method, at: Date.now() });
+		},
+		onReceive: (_, { requestId }) => finish(requestId),
+		onError: (error, { requestId }) => finish(requestId, error),
+	};
+}
@@ -0,0 +1,115 @@
+import type { PreparedTransaction } from "@erc7824/nitrolite";
+import { decodeAbiParameters, encodeFunctionData, type Address, type Hex, type PublicClient } from "viem";
+
+/**
+ * Where funds sit: the wallet, the account's available balance in the custody contract, or locked in a channel.
+ */
+export type BalanceLocation = "wallet" | "custody" | "channel";
+
+export type BalanceChange = {
+	location: BalanceLocation;
+	token: Address;
+	/**
+	 * Signed change in the token's smallest unit.
+	 */
+	amount: bigint;
+};
+
+export type UnsignedTransaction = {
+	from?: Address;
+	to: Address;
+	data: Hex;
+	value: bigint;
+	/**
+	 * Estimated gas, or null when it could not be estimated, typically because the transaction depends on an
+	 * earlier one in the same preview (a deposit right after its approval).
+	 */
+	gas: bigint | null;
+	/**
+	 * The simulated contract call, ready for `walletClient.writeContract`.
+	 */
+	request: PreparedTransaction;
+};
+
+/**
+ * What an on-chain operation would do, without sending anything.
+ */
+export type TransactionPreview = {
+	/**
+	 * Transactions in the order they must be sent.
+	 */
+	transactions: UnsignedTransaction[];
+	/**
+	 * Total estimated gas, or null when any transaction could not be estimated.
+	 */
+	gas: bigint | null;
+	/**
+	 * Expected balance changes of the account once every transaction is mined.
+	 */
+	balanceChanges: BalanceChange[];
+};
+
+type Allocation = { destination: Address; token: Address; amount: bigint };
+
+/**
+ * Encodes the prepared calls and estimates their gas.
+ */
+export async function toPreview(
+	publicClient: PublicClient | undefined,
+	requests: PreparedTransaction[],
+	balanceChanges: BalanceChange[]
+): Promise<TransactionPreview> {
+	const transactions = await Promise.all(
+		requests.map(async (request): Promise<UnsignedTransaction> => {
+			const gas = publicClient ? await publicClient.estimateContractGas(request).catch(() => null) : null;
+			const account = request.account;
+			return {
+				from: typeof account === "string" ? account : account?.address,
+				to: request.address,
+				data: encodeFunctionData({ abi: request.abi, functionName: request.functionName, args: request.args }),
+				value: request.value ?? 0n,
+				gas,
+				request,
+			};
+		})
+	);
+	const gas = transactions.every((tx) => tx.gas !== null)
+		? transactions.reduce((total, tx) => total + tx.gas!, 0n)
+		: null;
+	return { transactions, gas, balanceChanges: balanceChanges.filter((change) => change.amount !== 0n) };
+}
+
+/**
+ * Balance changes of moving `amount` of `token` from one location to another.
+ */
+export function moveFunds(token: Address, amount: bigint, from: BalanceLocation, to: BalanceLocation): BalanceChange[] {
+	return [
+		{ location: from, token, amount: -amount },
+		{ location: to, token, amount },
+	];
+}
+
+/**
+ * The account's share of channel allocations, per token.
+ */
+export function allocatedTo(account: Address | undefined, allocations: Allocation[]): Map<Address, bigint> {
+	const shares = new Map<Address, bigint>();
+	for (const allocation of allocations) {
+		if (!account || allocation.destination.toLowerCase() !== account.toLowerCase()) continue;
+		shares.set(allocation.token, (shares.get(allocation.token) ?? 0n) + BigInt(allocation.amount));
+	}
+	return shares;
+}
+
+/**
+ * Resize state data holds the signed change of each participant's channel funds, the account (participant 0) first.
+ * Returns null when the data cannot be decoded.
+ */
+export function resizeDelta(data: Hex): bigint | null {
+	try {
+		const [amounts] = decodeAbiParameters([{ type: "int256[]" }], data);
+		return amounts[0] ?? null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,168 @@
+import { DEFAULT_REDACTED_KEYS, frameContext, redactFrame, type Middleware } from "./middleware";
+import { InProcessSocket, type Transport, type TransportSocket } from "./transport";
+
+/**
+ * One frame of a recorded session.
+ */
+export type RecordedFrame = {
+	/**
+	 * Unix timestamp in milliseconds at which the frame was sent or received.
+	 */
+	at: number;
+	direction: "send" | "receive";
+	/**
+	 * The frame with signatures, auth challenges and JWTs redacted.
+	 */
+	frame: string;
+};
+
+export type SessionRecorderOptions = {
+	/**
+	 * Receives every frame as one JSONL line, without the trailing newline, e.g. to append it to a file.
+	 * Frames are only kept in memory when no `write` is given.
+	 */
+	write?: (line: string) => void;
+	/**
+	 * Keys whose values are redacted at any depth. Defaults to signatures, auth challenges and JWTs.
+	 */
+	redact?: string[];
+};
+
+/**
+ * Records every frame a client sends and receives, for debugging or for replaying with ReplayTransport.
+ * Register `middleware` after any middleware that rewrites frames so the recording holds what went over the wire.
+ */
+export class SessionRecorder {
+	readonly middleware: Middleware;
+	private readonly recorded: RecordedFrame[] = [];
+
+	constructor(options?: SessionRecorderOptions) {
+		const keys = new Set(options?.redact ?? DEFAULT_REDACTED_KEYS);
+		const record = (direction: "send" | "receive") => (frame: string) => {
+			const redacted = redactFrame(frame, keys);
+			const entry: RecordedFrame = {
+				at: Date.now(),
+				direction,
+				frame: typeof redacted === "string" ? redacted : JSON.stringify(redacted),
+			};
+			if (options?.write) {
+				options.write(JSON.stringify(entry));
+			} else {
+				this.recorded.push(entry);
+			}
+		};
+		this.middleware = { name: "recorder", onSend: record("send"), onReceive: record("receive") };
+	}
+
+	get frames(): RecordedFrame[] {
+		return [...this.recorded];
+	}
+
+	toJSONL(): string {
+		return this.recorded.map((entry) => JSON.stringify(entry) + "\n").join("");
+	}
+}
+
+/**
+ * Parses a JSONL recording written by SessionRecorder.
+ */
+export function parseRecording(jsonl: string): RecordedFrame[] {
+	return jsonl
+		.split("\n")
+		.filter((line) => line.trim() !== "")
+		.map((line) => JSON.parse(line) as RecordedFrame);
+}
+
+export type ReplayTransportOptions = {
+	/**
+	 * Throw when the client sends a frame whose method or request id differs from the next recorded one.
+	 * Defaults to true.
+	 */
+	strict?: boolean;
+};
+
+/**
+ * Plays a recorded session back to a client, without a network. Received frames are delivered in recorded order,
+ * each as soon as the frames recorded before it were sent by the client, so replay does not depend on timing.
+ * Pass it as `transport` in ClientOptions.
+ */
+export class ReplayTransport implements Transport {
+	private readonly recording: RecordedFrame[];
+	private readonly strict: boolean;
+	private position = 0;
+
+	constructor(recording: RecordedFrame[] | string, options?: ReplayTransportOptions) {
+		this.recording = typeof recording === "string" ? parseRecording(recording) : [...recording];
+		this.strict = options?.strict ?? true;
+	}
+
+	/**
+	 * Whether every recorded frame was replayed.
+	 */
+	get done(): boolean {
+		return this.position >= this.recording.length;
+	}
+
+	/**
+	 * Recorded frames not replayed yet.
+	 */
+	get remaining(): RecordedFrame[] {
+		return this.recording.slice(this.position);
+	}
+
+	open(_url: string): TransportSocket {
+		return new ReplaySocket({ sent: (frame) => this.expectSend(frame), next: () => this.nextReceived() });
+	}
+
+	/**
+	 * Matches a frame sent by the client against the next recorded one.
+	 */
+	private expectSend(frame: string): void {
+		const expected = this.recording[this.position];
+		if (!expected || expected.direction !== "send") {
+			if (this.strict) throw new Error(`Replay diverged: unexpected frame ${frame}`);
+			return;
+		}
+		const actual = frameContext(frame);
+		const recorded = frameContext(expected.frame);
+		if (this.strict && (actual.method !== recorded.method || actual.requestId !== recorded.requestId)) {
+			throw new Error(
+				`Replay diverged: expected ${recorded.method} #${recorded.requestId} but the client sent ${actual.method} #${actual.requestId}`
+			);
+		}
+		this.position++;
+	}
+
+	/**
+	 * Takes the next received frame, or null when the client has to send a frame first.
+	 */
+	private nextReceived(): string | null {
+		const next = this.recording[this.position];
+		if (next?.direction !== "receive") return null;
+		this.position++;
+		return next.frame;
+	}
+}
+
+class ReplaySocket extends InProcessSocket {
+	constructor(private readonly replay: { sent: (frame: string) => void; next: () => string | null }) {
+		super();
+		queueMicrotask(() => this.opened() && this.deliver());
+	}
+
+	send(data: string): void {
+		if (this.readyState !== this.OPEN) return;
+		this.replay.sent(data);
+		queueMicrotask(() => this.deliver());
+	}
+
+	close(code = 1000, reason = ""): void {
+		this.closeSoon(code, reason);
+	}
+
+	private deliver(): void {
+		for (let frame = this.replay.next(); frame !== null; frame = this.readyState === this.OPEN ? this.replay.next() : null) {
+			this.received(frame);
+		}
+	}
+}
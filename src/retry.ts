@@ -0,0 +1,111 @@
+import { DisconnectedError, RpcError, TimeoutError } from "./errors";
+
+type ErrorClass = abstract new (...args: any[]) => Error;
+
+export type RetryPolicy = {
+	/**
+	 * Total number of attempts, including the first one. Defaults to 3.
+	 */
+	maxAttempts?: number;
+	/**
+	 * Backoff before the second attempt; doubles for every further attempt. Defaults to 200.
+	 */
+	initialDelayMs?: number;
+	/**
+	 * Upper bound of the backoff. Defaults to 5000.
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Picks a random delay between 0 and the backoff ("full jitter"), so clients that failed together do not retry together.
+	 * Defaults to true.
+	 */
+	jitter?: boolean;
+	/**
+	 * Errors worth another attempt: error classes, or a predicate. Defaults to TimeoutError and DisconnectedError.
+	 */
+	retryOn?: ErrorClass[] | ((error: unknown, attempt: number) => boolean);
+	/**
+	 * RpcError codes worth another attempt, in addition to `retryOn`.
+	 */
+	retryOnCodes?: number[];
+};
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "retryOnCodes">> & { retryOnCodes: number[] };
+
+/**
+ * Read-only clearnode methods, retried automatically. Methods that move funds, such as transfer, are deliberately absent.
+ */
+export const DEFAULT_IDEMPOTENT_METHODS: readonly string[] = [
+	"ping",
+	"get_config",
+	"get_assets",
+	"get_channels",
+	"get_ledger_balances",
+	"get_ledger_entries",
+	"get_ledger_transactions",
+	"get_user_tag",
+	"get_session_keys",
+	"get_app_definition",
+	"get_app_sessions",
+];
+
+const DEFAULT_POLICY: ResolvedRetryPolicy = {
+	maxAttempts: 3,
+	initialDelayMs: 200,
+	maxDelayMs: 5_000,
+	jitter: true,
+	retryOn: [TimeoutError, DisconnectedError],
+	retryOnCodes: [],
+};
+
+/**
+ * Merges a per-call policy over the client-wide one. `false` at either level disables retries.
+ */
+export function resolveRetryPolicy(
+	base: RetryPolicy | false | undefined,
+	override?: RetryPolicy | false
+): ResolvedRetryPolicy | null {
+	if (override === false || (base === false && override === undefined)) return null;
+	return { ...DEFAULT_POLICY, ...(base || {}), ...(override || {}) } as ResolvedRetryPolicy;
+}
+
+export function shouldRetry(policy: ResolvedRetryPolicy, error: unknown, attempt: number): boolean {
+	if (attempt >= policy.maxAttempts) return false;
+	if (error instanceof RpcError && error.code !== undefined && policy.retryOnCodes.includes(error.code)) {
+		return true;
+	}
+	if (typeof policy.retryOn === "function") {
+		return policy.retryOn(error, attempt);
+	}
+	return policy.retryOn.some((errorClass) => error instanceof errorClass);
+}
+
+/**
+ * Backoff before the attempt following `attempt` (1-based).
+ */
+export function retryDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+	const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+	return policy.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Runs `run` until it succeeds, the error is not retryable, attempts are exhausted, or `canRetry` returns false.
+ * @param policy Retry policy, or null for a single attempt
+ * @param run Performs one attempt; receives the 1-based attempt number
+ * @param canRetry Checked before every further attempt, e.g. to stop after the client was disconnected
+ */
+export async function withRetry<T>(
+	policy: ResolvedRetryPolicy | null,
+	run: (attempt: number) => Promise<T>,
+	canRetry: () => boolean = () => true
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await run(attempt);
+		} catch (error) {
+			if (!policy || !shouldRetry(policy, error, attempt) || !canRetry()) throw error;
+			await new Promise((resolve) => setTimeout(resolve, retryDelay(policy, attempt)));
+			if (!canRetry()) throw error;
+		}
+	}
+}
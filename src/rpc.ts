@@ -0,0 +1,302 @@
+import type { Address, Hex } from "viem";
+import { RPCMethod } from "@erc7824/nitrolite";
+
+// Wire-level request params are snake_case; result types mirror the camelCase shapes
+// produced by nitrolite's response parsers (parseAnyRPCResponse).
+
+export type RPCChannelStatus = "open" | "closed" | "resizing" | "challenged";
+export type RPCProtocolVersion = "NitroRPC/0.2" | "NitroRPC/0.4";
+export type RPCAppStateIntent = "operate" | "deposit" | "withdraw";
+export type RPCTxType =
+	| "transfer"
+	| "deposit"
+	| "withdrawal"
+	| "app_deposit"
+	| "app_withdrawal"
+	| "escrow_lock"
+	| "escrow_unlock";
+
+export type PaginationFilters = {
+	offset?: number;
+	limit?: number;
+	sort?: "asc" | "desc";
+};
+
+export type RPCNetworkInfo = {
+	chainId: number;
+	name: string;
+	custodyAddress: Address;
+	adjudicatorAddress: Address;
+};
+
+export type RPCAsset = {
+	token: Address;
+	chainId: number;
+	symbol: string;
+	decimals: number;
+};
+
+export type RPCBalance = {
+	asset: string;
+	amount: string;
+};
+
+export type RPCLedgerEntry = {
+	id: number;
+	accountId: Address | Hex;
+	accountType: number;
+	asset: string;
+	participant: Address;
+	credit: string;
+	debit: string;
+	createdAt: Date;
+};
+
+export type RPCTransaction = {
+	id: number;
+	txType: RPCTxType;
+	fromAccount: Address | Hex;
+	fromAccountTag?: string;
+	toAccount: Address | Hex;
+	toAccountTag?: string;
+	asset: string;
+	amount: string;
+	createdAt: Date;
+};
+
+export type RPCChannelUpdate = {
+	channelId: Hex;
+	participant: Address;
+	status: RPCChannelStatus;
+	token: Address;
+	amount: bigint;
+	chainId: number;
+	adjudicator: Address;
+	challenge: number;
+	nonce: number;
+	version: number;
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+export type RPCChannelUpdateWithWallet = RPCChannelUpdate & {
+	wallet: Address;
+};
+
+export type RPCChannelAllocation = {
+	destination: Address;
+	token: Address;
+	amount: bigint;
+};
+
+export type RPCChannelOperation = {
+	channelId: Hex;
+	state: {
+		intent: number;
+		version: number;
+		stateData: Hex;
+		allocations: RPCChannelAllocation[];
+	};
+	serverSignature: Hex;
+};
+
+export type RPCChannel = {
+	participants: Address[];
+	adjudicator: Address;
+	challenge: number;
+	nonce: number;
+};
+
+export type RPCAppDefinition = {
+	application: string;
+	protocol: RPCProtocolVersion;
+	participants: Hex[];
+	weights: number[];
+	quorum: number;
+	challenge: number;
+	nonce?: number;
+};
+
+export type RPCAppSessionAllocation = {
+	asset: string;
+	amount: string;
+	participant: Address;
+};
+
+export type RPCTransferAllocation = {
+	asset: string;
+	amount: string;
+};
+
+export type RPCAppSession = {
+	appSessionId: Hex;
+	application: string;
+	status: RPCChannelStatus;
+	participants: Address[];
+	protocol: RPCProtocolVersion;
+	challenge: number;
+	weights: number[];
+	quorum: number;
+	version: number;
+	nonce: number;
+	createdAt: Date;
+	updatedAt: Date;
+	sessionData?: string;
+};
+
+export type RPCAppSessionResult = {
+	appSessionId: Hex;
+	version: number;
+	status: RPCChannelStatus;
+};
+
+export type RPCSessionKey = {
+	id: number;
+	sessionKey: Address;
+	application: string;
+	allowances: Array<{ asset: string; allowance: string; used: string }>;
+	scope?: string;
+	expiresAt: Date;
+	createdAt: Date;
+};
+
+// ========== Server Push Notifications ==========
+
+export type BalanceUpdateParams = {
+	balanceUpdates: RPCBalance[];
+};
+
+export type ChannelsUpdateParams = {
+	channels: RPCChannelUpdate[];
+};
+
+export type ChannelUpdateParams = RPCChannelUpdate;
+
+export type TransferNotificationParams = {
+	transactions: RPCTransaction[];
+};
+
+export type AppSessionUpdateParams = RPCAppSession & {
+	participantAllocations: RPCAppSessionAllocation[];
+};
+
+/**
+ * Parsed params of every server push notification, keyed by RPC method.
+ */
+export type RPCNotificationMap = {
+	[RPCMethod.BalanceUpdate]: BalanceUpdateParams;
+	[RPCMethod.ChannelsUpdate]: ChannelsUpdateParams;
+	[RPCMethod.ChannelUpdate]: ChannelUpdateParams;
+	[RPCMethod.TransferNotification]: TransferNotificationParams;
+	[RPCMethod.AppSessionUpdate]: AppSessionUpdateParams;
+};
+
+export type RPCNotificationMethod = keyof RPCNotificationMap;
+
+// ========== Callable Methods ==========
+
+/**
+ * Request params and parsed result for every RPC method callable through `Client.call`.
+ */
+export type RPCMethodMap = {
+	[RPCMethod.Ping]: {
+		params: {};
+		result: {};
+	};
+	[RPCMethod.GetConfig]: {
+		params: {};
+		result: { brokerAddress: Address; networks: RPCNetworkInfo[] };
+	};
+	[RPCMethod.GetAssets]: {
+		params: { chain_id?: number };
+		result: { assets: RPCAsset[] };
+	};
+	[RPCMethod.GetChannels]: {
+		params: { participant?: Address; status?: RPCChannelStatus };
+		result: { channels: RPCChannelUpdateWithWallet[] };
+	};
+	[RPCMethod.CreateChannel]: {
+		params: { chain_id: number; token: Address };
+		result: RPCChannelOperation & { channel: RPCChannel };
+	};
+	[RPCMethod.ResizeChannel]: {
+		params: { channel_id: Hex; resize_amount?: bigint; allocate_amount?: bigint; funds_destination: Address };
+		result: RPCChannelOperation;
+	};
+	[RPCMethod.CloseChannel]: {
+		params: { channel_id: Hex; funds_destination: Address };
+		result: RPCChannelOperation;
+	};
+	[RPCMethod.GetLedgerBalances]: {
+		params: { account_id?: string };
+		result: { ledgerBalances: RPCBalance[] };
+	};
+	[RPCMethod.GetLedgerEntries]: {
+		params: { account_id?: string; asset?: string; wallet?: Address };
+		result: { ledgerEntries: RPCLedgerEntry[] };
+	};
+	[RPCMethod.GetLedgerTransactions]: {
+		params: PaginationFilters & { account_id: string; tx_type?: RPCTxType; asset?: string };
+		result: { ledgerTransactions: RPCTransaction[] };
+	};
+	[RPCMethod.Transfer]: {
+		params: { destination?: Address; destination_user_tag?: string; allocations: RPCTransferAllocation[] };
+		result: { transactions: RPCTransaction[] };
+	};
+	[RPCMethod.GetUserTag]: {
+		params: {};
+		result: { tag: string };
+	};
+	[RPCMethod.GetSessionKeys]: {
+		params: {};
+		result: { sessionKeys: RPCSessionKey[] };
+	};
+	[RPCMethod.RevokeSessionKey]: {
+		params: { session_key: Address };
+		result: { sessionKey: Address };
+	};
+	[RPCMethod.CreateAppSession]: {
+		params: { definition: RPCAppDefinition; allocations: RPCAppSessionAllocation[]; session_data?: string };
+		result: RPCAppSessionResult;
+	};
+	[RPCMethod.SubmitAppState]: {
+		params: {
+			app_session_id: Hex;
+			intent?: RPCAppStateIntent;
+			version?: number;
+			allocations: RPCAppSessionAllocation[];
+			session_data?: string;
+		};
+		result: RPCAppSessionResult;
+	};
+	[RPCMethod.CloseAppSession]: {
+		params: { app_session_id: Hex; allocations: RPCAppSessionAllocation[]; session_data?: string };
+		result: RPCAppSessionResult;
+	};
+	[RPCMethod.GetAppDefinition]: {
+		params: { app_session_id: Hex };
+		result: {
+			protocol: string;
+			participants: Address[];
+			weights: number[];
+			quorum: number;
+			challenge: number;
+			nonce: number;
+		};
+	};
+	[RPCMethod.GetAppSessions]: {
+		params: PaginationFilters & { participant?: Address; status?: RPCChannelStatus };
+		result: { appSessions: RPCAppSession[] };
+	};
+};
+
+export type RPCCallMethod = keyof RPCMethodMap;
+export type RPCParams<M extends RPCCallMethod> = RPCMethodMap[M]["params"];
+export type RPCResult<M extends RPCCallMethod> = RPCMethodMap[M]["result"];
+
+/**
+ * Argument list of `Client.call`: params may be omitted when every field is optional.
+ */
+export type RPCCallArgs<M extends RPCCallMethod, O> = {} extends RPCParams<M>
+	? [params?: RPCParams<M>, options?: O]
+	: [params: RPCParams<M>, options?: O];
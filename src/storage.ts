@@ -0,0 +1,143 @@
+/**
+ * Minimal async key/value store used to persist client state such as signed channel states.
+ * Values are JSON-serializable; bigints are encoded by the store users, not the storage.
+ */
+export interface KeyValueStorage {
+	get(key: string): Promise<string | undefined>;
+	set(key: string, value: string): Promise<void>;
+	delete(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+}
+
+/**
+ * Keeps everything in memory. The default; state is lost when the process exits.
+ */
+export class MemoryStorage implements KeyValueStorage {
+	private readonly entries = new Map<string, string>();
+
+	async get(key: string): Promise<string | undefined> {
+		return this.entries.get(key);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		this.entries.set(key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async keys(): Promise<string[]> {
+		return [...this.entries.keys()];
+	}
+}
+
+/**
+ * Persists all entries as one JSON object in a file. Node only; the file is created on the first write.
+ * Writes are serialized and replace the file atomically through a temporary file.
+ */
+export class JsonFileStorage implements KeyValueStorage {
+	private entries: Promise<Map<string, string>> | null = null;
+	private writing: Promise<void> = Promise.resolve();
+
+	constructor(private readonly path: string) {}
+
+	async get(key: string): Promise<string | undefined> {
+		return (await this.load()).get(key);
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		(await this.load()).set(key, value);
+		await this.flush();
+	}
+
+	async delete(key: string): Promise<void> {
+		const entries = await this.load();
+		if (entries.delete(key)) await this.flush();
+	}
+
+	async keys(): Promise<string[]> {
+		return [...(await this.load()).keys()];
+	}
+
+	private load(): Promise<Map<string, string>> {
+		this.entries ??= import("fs/promises").then(async ({ readFile }) => {
+			try {
+				return new Map(Object.entries(JSON.parse(await readFile(this.path, "utf8")) as Record<string, string>));
+			} catch (error) {
+				if ((error as { code?: string }).code === "ENOENT") return new Map();
+				throw error;
+			}
+		});
+		return this.entries;
+	}
+
+	private flush(): Promise<void> {
+		const write = this.writing.then(async () => {
+			const { rename, writeFile } = await import("fs/promises");
+			const json = JSON.stringify(Object.fromEntries(await this.load()), null, 2);
+			await writeFile(`${this.path}.tmp`, json);
+			await rename(`${this.path}.tmp`, this.path);
+		});
+		this.writing = write.catch(() => undefined);
+		return write;
+	}
+}
+
+/**
+ * Promise-based key/value store in the shape of IndexedDB wrappers such as idb-keyval or localForage.
+ */
+export type AsyncKeyValueStore = {
+	get(key: string): Promise<unknown>;
+	set(key: string, value: string): Promise<unknown>;
+	del?(key: string): Promise<unknown>;
+	delete?(key: string): Promise<unknown>;
+	removeItem?(key: string): Promise<unknown>;
+	keys(): Promise<Iterable<unknown>>;
+};
+
+/**
+ * Adapts an IndexedDB-style async store, e.g. idb-keyval bound to a store or a localForage instance.
+ * Keys are namespaced with `prefix` so the store can be shared with other data.
+ */
+export class IndexedDbStorage implements KeyValueStorage {
+	constructor(private readonly store: AsyncKeyValueStore, private readonly prefix = "yellow-ts:") {}
+
+	async get(key: string): Promise<string | undefined> {
+		const value = await this.store.get(this.prefix + key);
+		return typeof value === "string" ? value : undefined;
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		await this.store.set(this.prefix + key, value);
+	}
+
+	async delete(key: string): Promise<void> {
+		const remove = this.store.del ?? this.store.delete ?? this.store.removeItem;
+		if (!remove) throw new Error("Store has no del, delete or removeItem method");
+		await remove.call(this.store, this.prefix + key);
+	}
+
+	async keys(): Promise<string[]> {
+		const keys: string[] = [];
+		for (const key of await this.store.keys()) {
+			if (typeof key === "string" && key.startsWith(this.prefix)) keys.push(key.slice(this.prefix.length));
+		}
+		return keys;
+	}
+}
+
+/**
+ * JSON.stringify replacer/reviver pair that round-trips bigints as `{ "$bigint": "<decimal>" }`.
+ */
+export function stringifyWithBigInt(value: unknown): string {
+	return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? { $bigint: item.toString() } : item));
+}
+
+export function parseWithBigInt<T>(json: string): T {
+	return JSON.parse(json, (_key, item) =>
+		item !== null && typeof item === "object" && typeof item.$bigint === "string" && Object.keys(item).length === 1
+			? BigInt(item.$bigint)
+			: item
+	) as T;
+}
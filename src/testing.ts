@@ -0,0 +1,3 @@
+export { MockClearnode } from "./MockClearnode";
+export type { MockClearnodeOptions, MockRequest, MockHandler } from "./MockClearnode";
+export { MemoryTransport, MemoryPeer } from "./MemoryTransport";
@@ -0,0 +1,173 @@
+import type { ClientOptions as WsClientOptions } from "ws";
+
+export type TransportEventType = "open" | "close" | "error" | "message";
+
+/**
+ * The socket surface the client talks to the clearnode over. The browser WebSocket and the `ws` package both satisfy it.
+ * `readyState` uses the WebSocket constants, and message events carry the frame as `data`.
+ */
+export interface TransportSocket {
+	readonly readyState: number;
+	readonly OPEN: number;
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+	addEventListener(type: TransportEventType, listener: (event: any) => void): void;
+	removeEventListener(type: TransportEventType, listener: (event: any) => void): void;
+	/**
+	 * Drops the connection without a close handshake, when supported.
+	 */
+	terminate?(): void;
+}
+
+/**
+ * Opens the sockets of a client. The client drives reconnects with backoff on top of the transport,
+ * calling `open` again for every attempt.
+ */
+export interface Transport {
+	/**
+	 * Awaited by `connect()` before a socket is opened, e.g. to load the `ws` package.
+	 */
+	prepare?(): Promise<void>;
+	open(url: string): TransportSocket;
+}
+
+type WebSocketConstructor = new (url: string, protocols?: string | string[]) => TransportSocket;
+
+export type WebSocketTransportOptions = {
+	/**
+	 * WebSocket implementation. Defaults to the global WebSocket, or the `ws` package where there is none (Node before 22).
+	 */
+	WebSocket?: WebSocketConstructor;
+	protocols?: string | string[];
+};
+
+/**
+ * The default transport: a WebSocket per connection attempt. Never assigns globals.
+ */
+export class WebSocketTransport implements Transport {
+	private webSocket: WebSocketConstructor | null;
+	private readonly protocols?: string | string[];
+
+	constructor(options?: WebSocketTransportOptions) {
+		this.webSocket = options?.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket ?? null;
+		this.protocols = options?.protocols;
+	}
+
+	async prepare(): Promise<void> {
+		if (this.webSocket) return;
+		try {
+			this.webSocket = await loadWs();
+		} catch {
+			// Not in Node; open() reports the missing implementation
+		}
+	}
+
+	open(url: string): TransportSocket {
+		if (!this.webSocket) {
+			throw new Error("No WebSocket implementation available; pass `WebSocket` to WebSocketTransport");
+		}
+		return new this.webSocket(url, this.protocols);
+	}
+}
+
+export type NodeTransportOptions = WsClientOptions & {
+	protocols?: string | string[];
+};
+
+/**
+ * Opens sockets with the `ws` package and passes its client options through: custom `headers`, a proxy `agent`,
+ * TLS settings and so on. Node only.
+ */
+export class NodeTransport implements Transport {
+	private webSocket: WebSocketConstructor | null = null;
+
+	constructor(private readonly options: NodeTransportOptions = {}) {}
+
+	async prepare(): Promise<void> {
+		this.webSocket ??= await loadWs();
+	}
+
+	open(url: string): TransportSocket {
+		if (!this.webSocket) {
+			throw new Error("NodeTransport is not prepared; connect() prepares it before opening sockets");
+		}
+		const { protocols, ...options } = this.options;
+		const WebSocket = this.webSocket as unknown as new (
+			url: string,
+			protocols: string | string[] | undefined,
+			options: WsClientOptions
+		) => TransportSocket;
+		return new WebSocket(url, protocols, options);
+	}
+}
+
+async function loadWs(): Promise<WebSocketConstructor> {
+	const wsMod: any = await import("ws");
+	// Prefer the named export; fall back to the default export of older versions
+	return wsMod.WebSocket ?? wsMod.default ?? wsMod;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+/**
+ * Event plumbing of the sockets that never touch the network: memory, replay and shared-worker sockets.
+ */
+export abstract class InProcessSocket implements TransportSocket {
+	readonly OPEN = OPEN;
+	readyState = CONNECTING;
+	private listeners = new Map<TransportEventType, Set<(event: any) => void>>();
+
+	abstract send(data: string): void;
+	abstract close(code?: number, reason?: string): void;
+
+	addEventListener(type: TransportEventType, listener: (event: any) => void): void {
+		let listeners = this.listeners.get(type);
+		if (!listeners) this.listeners.set(type, (listeners = new Set()));
+		listeners.add(listener);
+	}
+
+	removeEventListener(type: TransportEventType, listener: (event: any) => void): void {
+		this.listeners.get(type)?.delete(listener);
+	}
+
+	/**
+	 * Moves to OPEN and emits "open". Returns false when the socket was closed first.
+	 */
+	protected opened(): boolean {
+		if (this.readyState !== CONNECTING) return false;
+		this.readyState = OPEN;
+		this.emit("open", { type: "open" });
+		return true;
+	}
+
+	protected received(data: string): void {
+		if (this.readyState === OPEN) this.emit("message", { type: "message", data });
+	}
+
+	/**
+	 * Stops delivering frames right away and emits "close" on a later microtask, as a closing WebSocket does.
+	 */
+	protected closeSoon(code: number, reason: string): void {
+		if (this.readyState >= CLOSING) return;
+		this.readyState = CLOSING;
+		queueMicrotask(() => this.closed(code, reason));
+	}
+
+	/**
+	 * Moves to CLOSED and emits "close", once.
+	 */
+	protected closed(code: number, reason: string): void {
+		if (this.readyState === CLOSED) return;
+		this.readyState = CLOSED;
+		this.emit("close", { type: "close", code, reason, wasClean: code === 1000 });
+	}
+
+	protected emit(type: TransportEventType, event: object): void {
+		for (const listener of [...(this.listeners.get(type) ?? [])]) {
+			listener(event);
+		}
+	}
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createECDSAMessageSigner } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { QuorumNotReachedError } from "../../src/errors";
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+const aliceKey = generatePrivateKey();
+const bobKey = generatePrivateKey();
+const alice = privateKeyToAccount(aliceKey).address;
+const bob = privateKeyToAccount(bobKey).address;
+const APP_SESSION_ID = "0x" + "cd".repeat(32);
+
+describe("AppSession", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let socket: WebSocket;
+  let received: Frame[];
+  let version: number;
+
+  beforeEach(async () => {
+    received = [];
+    version = 0;
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (ws) => {
+      socket = ws;
+      ws.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        const [id, method, params] = frame.req;
+        let status = "open";
+        if (method === "create_app_session") version = 1;
+        if (method === "submit_app_state") version = params.version ?? version + 1;
+        if (method === "close_app_session") {
+          version += 1;
+          status = "closed";
+        }
+        ws.send(
+          JSON.stringify({ res: [id, method, { app_session_id: APP_SESSION_ID, version, status }, Date.now()], sig: [] })
+        );
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}` });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const create = (signers: Record<string, any>) =>
+    client.createAppSession({
+      participants: [alice, bob],
+      weights: [50, 50],
+      quorum: 100,
+      allocations: [
+        { participant: alice, asset: "usdc", amount: "1" },
+        { participant: bob, asset: "usdc", amount: "1" },
+      ],
+      signers,
+    });
+
+  const bothSigners = () => ({
+    [alice]: createECDSAMessageSigner(aliceKey),
+    [bob]: createECDSAMessageSigner(bobKey),
+  });
+
+  it("creates the session with a quorum of signatures", async () => {
+    const session = await create(bothSigners());
+
+    expect(session.appSessionId).toBe(APP_SESSION_ID);
+    expect(session.version).toBe(1);
+    expect(session.status).toBe("open");
+    const [, method, params] = received[0].req;
+    expect(method).toBe("create_app_session");
+    expect(params.definition).toMatchObject({ protocol: "NitroRPC/0.4", participants: [alice, bob], quorum: 100 });
+    expect(received[0].sig).toHaveLength(2);
+  });
+
+  it("rejects with QuorumNotReachedError when signers lack weight", async () => {
+    await expect(create({ [alice]: createECDSAMessageSigner(aliceKey) })).rejects.toBeInstanceOf(
+      QuorumNotReachedError
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  it("submits versioned state updates and tracks allocations", async () => {
+    const session = await create(bothSigners());
+    const changes: number[] = [];
+    session.on("stateChange", (state) => changes.push(state.version));
+    const allocations = [
+      { participant: alice, asset: "usdc", amount: "0.5" },
+      { participant: bob, asset: "usdc", amount: "1.5" },
+    ];
+
+    const state = await session.submitState({ allocations });
+
+    expect(received[1].req[2]).toMatchObject({ app_session_id: APP_SESSION_ID, intent: "operate", version: 2 });
+    expect(received[1].sig).toHaveLength(2);
+    expect(state.version).toBe(2);
+    expect(session.allocations).toEqual(allocations);
+    expect(changes).toEqual([2]);
+  });
+
+  it("closes the session and emits closed", async () => {
+    const session = await create(bothSigners());
+    const closed = new Promise((resolve) => session.once("closed", resolve));
+
+    await session.close();
+
+    expect(received[1].req[1]).toBe("close_app_session");
+    expect(received[1].req[2].allocations).toEqual(session.allocations);
+    expect(await closed).toMatchObject({ status: "closed", version: 2 });
+  });
+
+  it("applies appSessionUpdate pushes for this session", async () => {
+    const session = await create(bothSigners());
+    const changed = new Promise<any>((resolve) => session.once("stateChange", resolve));
+
+    socket.send(
+      JSON.stringify({
+        res: [
+          0,
+          "asu",
+          {
+            app_session: {
+              app_session_id: APP_SESSION_ID,
+              application: "clearnode",
+              status: "open",
+              participants: [alice, bob],
+              protocol: "NitroRPC/0.4",
+              challenge: 0,
+              weights: [50, 50],
+              quorum: 100,
+              version: 5,
+              nonce: 1,
+              created_at: "2025-01-01T00:00:00Z",
+              updated_at: "2025-01-01T00:00:00Z",
+            },
+            participant_allocations: [{ participant: alice, asset: "usdc", amount: "2" }],
+          },
+          1,
+        ],
+        sig: [],
+      })
+    );
+
+    expect(await changed).toMatchObject({ version: 5 });
+    expect(session.allocations).toEqual([{ participant: alice, asset: "usdc", amount: "2" }]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { keccak256, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { StateIntent, getPackedState } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { ChannelStore } from "../../src/ChannelStore";
+import { InvalidStateError, NotConfiguredError, StateNotFoundError } from "../../src/errors";
+import { IndexedDbStorage, JsonFileStorage } from "../../src/storage";
+
+const user = privateKeyToAccount(generatePrivateKey());
+const broker = privateKeyToAccount(generatePrivateKey());
+const participants = [user.address, broker.address];
+const channelId = keccak256("0x01") as Hex;
+
+const signedState = async (version: bigint, intent = StateIntent.OPERATE, signers = [user, broker]) => {
+  const state = {
+    intent,
+    version,
+    data: "0x" as Hex,
+    allocations: [{ destination: user.address, token: broker.address, amount: 10n * version }],
+    sigs: [] as Hex[],
+  };
+  const packed = getPackedState(channelId, state);
+  // The user signs as a wallet (EIP-191), the broker with a raw session key signature
+  state.sigs = await Promise.all(
+    signers.map((signer) =>
+      signer === user ? signer.signMessage({ message: { raw: packed } }) : signer.sign({ hash: keccak256(packed) })
+    )
+  );
+  return state;
+};
+
+describe("ChannelStore", () => {
+  it("records newer states signed by the participants", async () => {
+    const store = new ChannelStore();
+    const first = await signedState(1n);
+    const second = await signedState(2n);
+
+    await store.record(channelId, first, participants);
+    await store.record(channelId, second);
+    await store.record(channelId, second);
+
+    expect(await store.history(channelId)).toEqual([first, second]);
+    expect(await store.latest(channelId)).toEqual(second);
+    expect(await store.channels()).toEqual([channelId]);
+  });
+
+  it("rejects stale versions and foreign signatures", async () => {
+    const store = new ChannelStore();
+    await store.record(channelId, await signedState(2n), participants);
+    const stranger = privateKeyToAccount(generatePrivateKey());
+
+    await expect(store.record(channelId, await signedState(1n))).rejects.toThrow("version 1 is not newer than 2");
+    await expect(store.record(channelId, await signedState(3n, StateIntent.OPERATE, [user, stranger]))).rejects.toThrow(
+      "is not from a participant"
+    );
+    await expect(store.record(channelId, await signedState(3n, StateIntent.OPERATE, [user, user]))).rejects.toBeInstanceOf(
+      InvalidStateError
+    );
+    await expect(store.record(keccak256("0x02"), await signedState(1n))).rejects.toThrow("channel is not tracked");
+  });
+
+  it("replaces the latest state once it is countersigned", async () => {
+    const store = new ChannelStore();
+    const countersigned = await signedState(1n);
+    await store.record(channelId, { ...countersigned, sigs: countersigned.sigs.slice(0, 1) }, participants);
+
+    await store.record(channelId, countersigned);
+
+    expect(await store.history(channelId)).toEqual([countersigned]);
+  });
+
+  it("builds challenge params with the preceding state as proof for a resize", async () => {
+    const store = new ChannelStore();
+    const operate = await signedState(1n);
+    const resize = await signedState(2n, StateIntent.RESIZE);
+    await store.record(channelId, operate, participants);
+    await store.record(channelId, resize);
+
+    expect(await store.challengeParams(channelId)).toEqual({ channelId, candidateState: resize, proofStates: [operate] });
+  });
+
+  it("has no challenge params for a channel without states", async () => {
+    const error = await new ChannelStore().checkpointParams(channelId).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StateNotFoundError);
+    expect(error.channelId).toBe(channelId);
+  });
+
+  it("persists states to a JSON file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "yellow-ts-"));
+    try {
+      const path = join(dir, "channels.json");
+      const state = await signedState(1n);
+      await new ChannelStore({ storage: new JsonFileStorage(path) }).record(channelId, state, participants);
+
+      const reloaded = new ChannelStore({ storage: new JsonFileStorage(path) });
+
+      expect(await reloaded.latest(channelId)).toEqual(state);
+      expect(await reloaded.participants(channelId)).toEqual(participants);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("adapts an IndexedDB-style key/value store", async () => {
+    const entries = new Map<string, string>();
+    const storage = new IndexedDbStorage({
+      get: async (key) => entries.get(key),
+      set: async (key, value) => void entries.set(key, value),
+      del: async (key) => entries.delete(key),
+      keys: async () => entries.keys(),
+    });
+    const store = new ChannelStore({ storage });
+
+    await store.record(channelId, await signedState(1n), participants);
+    expect([...entries.keys()]).toEqual([`yellow-ts:channel:${channelId}`]);
+
+    await store.remove(channelId);
+    expect(await store.channels()).toEqual([]);
+  });
+});
+
+describe("Client with a channel store", () => {
+  it("challenges with the latest recorded state and records created channels", async () => {
+    const channelStore = new ChannelStore();
+    const initialState = await signedState(1n);
+    const challengeChannel = vi.fn().mockResolvedValue("0xchallenge");
+    const nitrolite = {
+      createChannel: async () => ({ channelId, initialState, txHash: "0xcreate" }),
+      challengeChannel,
+    };
+    const client = new Client({ channelStore, nitrolite: {}, createNitroliteClient: () => nitrolite as any });
+
+    await client.createChannel({ channel: { participants } });
+    await client.challengeChannel({ channelId });
+
+    expect(await channelStore.latest(channelId)).toEqual(initialState);
+    expect(challengeChannel).toHaveBeenCalledWith({ channelId, candidateState: initialState, proofStates: [] });
+  });
+
+  it("needs a channel store to challenge with just a channel id", async () => {
+    const client = new Client({ nitrolite: {}, createNitroliteClient: () => ({}) as any });
+
+    const error = await client.challengeChannel({ channelId }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotConfiguredError);
+    expect(error).toMatchObject({ operation: "challengeChannel", option: "channelStore" });
+  });
+
+  it("records the states of resizes and cooperative closes", async () => {
+    const channelStore = new ChannelStore();
+    await channelStore.record(channelId, await signedState(1n), participants);
+    const resizeState = await signedState(2n, StateIntent.RESIZE);
+    const { sigs: [serverSignature], ...finalState } = await signedState(3n, StateIntent.FINALIZE, [broker]);
+    const nitrolite = {
+      resizeChannel: async () => ({ resizeState, txHash: "0xresize" }),
+      closeChannel: async () => "0xclose",
+    };
+    const client = new Client({ channelStore, nitrolite: {}, createNitroliteClient: () => nitrolite as any });
+
+    await expect(client.resizeChannel({ resizeState: { channelId }, proofStates: [] })).resolves.toBe("0xresize");
+    expect(await channelStore.latest(channelId)).toEqual(resizeState);
+
+    await client.closeChannel({ finalState: { ...finalState, channelId, serverSignature }, stateData: "0x" });
+    expect(await channelStore.latest(channelId)).toEqual({ ...finalState, sigs: [serverSignature] });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { Client } from "../../src/Client";
+import { AuthExpiredError, AuthRejectedError } from "../../src/errors";
+
+const wallet = createWalletClient({
+  account: privateKeyToAccount(generatePrivateKey()),
+  chain: base,
+  transport: http(),
+});
+const sessionKey = privateKeyToAccount(generatePrivateKey()).address;
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+function reply(socket: WebSocket, id: number, method: string, params: any) {
+  socket.send(JSON.stringify({ res: [id, method, params, Date.now()], sig: [] }));
+}
+
+describe("Client authenticate", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let verifyReply: (socket: WebSocket, frame: Frame) => void;
+  let received: Frame[];
+
+  beforeEach(async () => {
+    received = [];
+    verifyReply = (socket, frame) =>
+      reply(socket, frame.req[0], "auth_verify", {
+        address: wallet.account.address,
+        session_key: sessionKey,
+        success: true,
+        jwt_token: "jwt-token",
+      });
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        const [id, method] = frame.req;
+        if (method === "auth_request") {
+          reply(socket, id, "auth_challenge", { challenge_message: "challenge-uuid" });
+        } else if (method === "auth_verify") {
+          verifyReply(socket, frame);
+        }
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}`, requestTimeoutMs: 5_000 });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const params = () => ({
+    signer: wallet,
+    sessionKey,
+    allowances: [{ asset: "usdc", amount: "1" }],
+    scope: "test.app",
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+  });
+
+  it("completes the handshake and stores the session", async () => {
+    expect(client.isAuthenticated).toBe(false);
+
+    const session = await client.authenticate(params());
+
+    expect(session.jwtToken).toBe("jwt-token");
+    expect(session.sessionKey).toBe(sessionKey);
+    expect(client.isAuthenticated).toBe(true);
+    expect(client.session).toEqual(session);
+
+    const [authRequest, authVerify] = received;
+    expect(authRequest.req[1]).toBe("auth_request");
+    expect(authRequest.req[2].session_key).toBe(sessionKey);
+    expect(authVerify.req[1]).toBe("auth_verify");
+    expect(authVerify.req[2].challenge).toBe("challenge-uuid");
+    expect(authVerify.sig).toHaveLength(1);
+  });
+
+  it("throws AuthRejectedError when the challenge is rejected", async () => {
+    verifyReply = (socket, frame) => reply(socket, frame.req[0], "error", { error: "invalid signature" });
+
+    await expect(client.authenticate(params())).rejects.toBeInstanceOf(AuthRejectedError);
+    expect(client.isAuthenticated).toBe(false);
+  });
+
+  it("throws AuthExpiredError when the challenge expired", async () => {
+    verifyReply = (socket, frame) => reply(socket, frame.req[0], "error", { error: "challenge expired" });
+
+    await expect(client.authenticate(params())).rejects.toBeInstanceOf(AuthExpiredError);
+  });
+
+  it("throws AuthExpiredError without contacting the clearnode for a past expiry", async () => {
+    await expect(
+      client.authenticate({ ...params(), expiresAt: Math.floor(Date.now() / 1000) - 1 })
+    ).rejects.toBeInstanceOf(AuthExpiredError);
+    expect(received).toHaveLength(0);
+  });
+
+  it("drops the session on disconnect", async () => {
+    await client.authenticate(params());
+    await client.disconnect();
+
+    expect(client.isAuthenticated).toBe(false);
+    expect(client.session).toBeNull();
+  });
+});
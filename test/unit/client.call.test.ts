@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer } from "ws";
+import type { AddressInfo } from "net";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+describe("Client call", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let received: Frame[];
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        const [id, method] = frame.req;
+        const respond = (m: string, params: any) =>
+          socket.send(JSON.stringify({ res: [id, m, params, Date.now()], sig: [] }));
+        if (method === "get_ledger_balances") {
+          respond(method, { ledger_balances: [{ asset: "usdc", amount: "12.5" }] });
+        } else {
+          respond("error", { error: `unsupported method ${method}` });
+        }
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}`, requestTimeoutMs: 5_000 });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("sends the request envelope and resolves with the parsed result", async () => {
+    const result = await client.call(RPCMethod.GetLedgerBalances, { account_id: "0xabc" });
+
+    expect(result.ledgerBalances).toEqual([{ asset: "usdc", amount: "12.5" }]);
+    const [id, method, params, timestamp] = received[0].req;
+    expect(typeof id).toBe("number");
+    expect(method).toBe("get_ledger_balances");
+    expect(params).toEqual({ account_id: "0xabc" });
+    expect(typeof timestamp).toBe("number");
+  });
+
+  it("defaults params to an empty object", async () => {
+    await client.call(RPCMethod.GetLedgerBalances);
+
+    expect(received[0].req[2]).toEqual({});
+  });
+
+  it("serializes bigint params as strings", async () => {
+    await expect(
+      client.call(RPCMethod.ResizeChannel, {
+        channel_id: "0x01",
+        resize_amount: 10n ** 18n,
+        funds_destination: "0x0000000000000000000000000000000000000001",
+      })
+    ).rejects.toThrow();
+
+    expect(received[0].req[2].resize_amount).toBe("1000000000000000000");
+  });
+
+  it("rejects with the clearnode error message", async () => {
+    await expect(client.call(RPCMethod.GetConfig)).rejects.toThrow("unsupported method get_config");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NitroliteClient, WalletStateSigner } from "@erc7824/nitrolite";
+import { createPublicClient, createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { Client } from "../../src/Client";
+import { NotConfiguredError } from "../../src/errors";
+import { NitroliteRegistry } from "../../src/NitroliteRegistry";
+import { MockClearnode } from "../../src/testing";
+
+// Records the configs NitroliteClients are built with instead of talking to a chain
+class FakeNitroliteClient {
+  constructor(readonly config: any) {}
+
+  async deposit(tokenAddress: string, amount: bigint) {
+    return `deposit:${this.config.chainId}:${tokenAddress}:${amount}`;
+  }
+
+  async getTokenBalance(tokenAddress: string) {
+    return tokenAddress === POLYGON_USDC ? BigInt(this.config.chainId) : 0n;
+  }
+
+  async getOpenChannels() {
+    return ["0xaa", "0xbb"];
+  }
+
+  async getAccountBalance(tokenAddress: string) {
+    return tokenAddress === BASE_WETH ? 100n : 0n;
+  }
+
+  async getChannelBalance(channelId: string, tokenAddress: string) {
+    return tokenAddress === BASE_WETH ? (channelId === "0xaa" ? 20n : 30n) : 0n;
+  }
+}
+
+const BROKER = "0x1111111111111111111111111111111111111111";
+const BASE_USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+const POLYGON_USDC = "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359";
+const BASE_WETH = "0x4200000000000000000000000000000000000006";
+const network = (chainId: number, n: number) => ({
+  chain_id: chainId,
+  name: `chain-${chainId}`,
+  custody_address: `0x${String(n).repeat(40)}`,
+  adjudicator_address: `0x${String(n + 1).repeat(40)}`,
+});
+
+describe("Client multi-chain registry", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+  let created: any[];
+
+  beforeEach(async () => {
+    created = [];
+    clearnode = await MockClearnode.start();
+    clearnode
+      .handle("get_config", { broker_address: BROKER, networks: [network(8453, 2), network(137, 4), network(1, 6)] })
+      .handle("get_assets", {
+        assets: [
+          { token: BASE_USDC, chain_id: 8453, symbol: "usdc", decimals: 6 },
+          { token: BASE_WETH, chain_id: 8453, symbol: "weth", decimals: 18 },
+          { token: POLYGON_USDC, chain_id: 137, symbol: "usdc", decimals: 6 },
+          { token: BROKER, chain_id: 1, symbol: "eth", decimals: 18 },
+        ],
+      });
+    client = new Client({
+      url: clearnode.url,
+      requestTimeoutMs: 1_000,
+      chains: {
+        8453: { publicClient: {} as any, walletClient: {} as any, stateSigner: {} as any, challengeDuration: 3600n },
+        137: { publicClient: {} as any, walletClient: {} as any, stateSigner: {} as any, challengeDuration: 7200n },
+      },
+      createNitroliteClient: (config) => {
+        created.push(config);
+        return new FakeNitroliteClient(config) as any;
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("routes operations to the client of the chain with the token's address", async () => {
+    await expect(client.deposit(5n, { chainId: 8453, token: "USDC" })).resolves.toBe(`deposit:8453:${BASE_USDC}:5`);
+    await expect(client.deposit(7n, { chainId: 137, token: POLYGON_USDC })).resolves.toBe(`deposit:137:${POLYGON_USDC}:7`);
+    await expect(client.getTokenBalance({ chainId: 137, token: "usdc" })).resolves.toBe(137n);
+    await expect(client.deposit(9n, { chainId: 8453, token: "weth" })).resolves.toBe(`deposit:8453:${BASE_WETH}:9`);
+
+    expect(created).toHaveLength(2);
+    expect(created[0]).toEqual({
+      publicClient: {},
+      walletClient: {},
+      stateSigner: {},
+      chainId: 8453,
+      challengeDuration: 3600n,
+      addresses: { custody: `0x${"2".repeat(40)}`, adjudicator: `0x${"3".repeat(40)}` },
+    });
+    expect(clearnode.requests.filter((r) => r.method === "get_config")).toHaveLength(1);
+  });
+
+  it("reads account info from the open channels", async () => {
+    await expect(client.getAccountChannels({ chainId: 8453, token: "weth" })).resolves.toEqual(["0xaa", "0xbb"]);
+    await expect(client.getAccountInfo({ chainId: 8453, token: "weth" })).resolves.toEqual({
+      available: 100n,
+      locked: 50n,
+      channelCount: 2,
+    });
+  });
+
+  it("lists the tokens usable on configured chains", async () => {
+    const supported = await client.getSupportedTokens();
+
+    expect(supported.map((asset) => [asset.chainId, asset.token])).toEqual([
+      [8453, BASE_USDC],
+      [8453, BASE_WETH],
+      [137, POLYGON_USDC],
+    ]);
+  });
+
+  it("rejects unknown chains and tokens", async () => {
+    await expect(client.deposit(1n, { chainId: 1, token: "eth" })).rejects.toThrow("No chain config for chain 1");
+    await expect(client.deposit(1n, { chainId: 8453, token: "eth" })).rejects.toThrow(
+      "Token eth is not supported on chain 8453"
+    );
+  });
+
+  it("requires the registry for targeted calls", async () => {
+    client = new Client({ url: clearnode.url });
+
+    await expect(client.deposit(1n, { chainId: 8453, token: "usdc" })).rejects.toBeInstanceOf(NotConfiguredError);
+  });
+});
+
+describe("NitroliteRegistry", () => {
+  it("builds real NitroliteClients from the chain configs", async () => {
+    const account = privateKeyToAccount(`0x${"01".repeat(32)}`);
+    // No request is sent: the clients are only constructed
+    const transport = http("http://127.0.0.1:1");
+    const walletClient = createWalletClient({ account, chain: base, transport });
+    const registry = new NitroliteRegistry(
+      {
+        8453: {
+          publicClient: createPublicClient({ chain: base, transport }),
+          walletClient,
+          stateSigner: new WalletStateSigner(walletClient),
+          challengeDuration: 3600n,
+        },
+      },
+      async () => ({
+        networks: [{ chainId: 8453, name: "base", custodyAddress: `0x${"2".repeat(40)}`, adjudicatorAddress: `0x${"3".repeat(40)}` }],
+        assets: [{ token: BASE_USDC, chainId: 8453, symbol: "usdc", decimals: 6 }],
+      })
+    );
+
+    const { client, config, token } = await registry.resolve({ chainId: 8453, token: "usdc" });
+
+    expect(client).toBeInstanceOf(NitroliteClient);
+    expect(config).toMatchObject({ chainId: 8453, challengeDuration: 3600n, addresses: { custody: `0x${"2".repeat(40)}` } });
+    expect(token).toBe(BASE_USDC);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import {
+  ChainTransactionError,
+  DisconnectedError,
+  NotConfiguredError,
+  RpcError,
+  TimeoutError,
+} from "../../src/errors";
+import { MockClearnode } from "../../src/testing";
+
+describe("Client errors", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 100, retry: false });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("rejects with RpcError carrying the request context", async () => {
+    clearnode.handle("get_config", () => {
+      throw new Error("internal error");
+    });
+
+    const error = await client.call(RPCMethod.GetConfig).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error).toMatchObject({ message: "internal error", method: "get_config" });
+    expect(error.requestId).toBe(clearnode.requests[0].id);
+  });
+
+  it("rejects raw requests answered with an error frame", async () => {
+    clearnode.handle("get_config", () => {
+      throw new Error("boom");
+    });
+
+    const requested = await client.request({ command: "get_config" }).catch((e) => e);
+    const sent = await client.sendMessage({ req: [99, "get_config", {}, Date.now()], sig: [] }).catch((e) => e);
+
+    expect(requested).toBeInstanceOf(RpcError);
+    expect(requested).toMatchObject({ message: "boom", method: "get_config" });
+    expect(sent).toBeInstanceOf(RpcError);
+    expect(sent).toMatchObject({ message: "boom", requestId: 99, method: "get_config" });
+  });
+
+  it("rejects with TimeoutError when no response arrives", async () => {
+    clearnode.handle("get_config", () => undefined);
+
+    const error = await client.call(RPCMethod.GetConfig).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ message: "Request timed out", timeoutMs: 100, method: "get_config" });
+  });
+
+  it("rejects in-flight requests with DisconnectedError", async () => {
+    clearnode.handle("get_config", () => undefined);
+    client = new Client({
+      url: clearnode.url,
+      requestTimeoutMs: 5_000,
+      backoff: { initialDelayMs: 1_000, maxDelayMs: 1_000 },
+      retry: false,
+    });
+
+    const pending = client.call(RPCMethod.GetConfig).catch((e) => e);
+    await clearnode.waitForRequest("get_config");
+    clearnode.drop();
+
+    const error = await pending;
+    expect(error).toBeInstanceOf(DisconnectedError);
+    expect(error.method).toBe("get_config");
+  });
+
+  it("throws NotConfiguredError for on-chain methods without nitrolite config", async () => {
+    await expect(client.deposit(1n)).rejects.toBeInstanceOf(NotConfiguredError);
+    await expect(client.getAccountInfo()).rejects.toMatchObject({ operation: "getAccountInfo" });
+  });
+
+  it("throws NotConfiguredError for token methods without a token option", async () => {
+    client = new Client({ nitrolite: {}, createNitroliteClient: () => ({}) as any });
+
+    await expect(client.getTokenBalance()).rejects.toMatchObject({ operation: "getTokenBalance" });
+    await expect(client.withdrawal(1n)).rejects.toBeInstanceOf(NotConfiguredError);
+  });
+
+  it("wraps on-chain failures in ChainTransactionError", async () => {
+    const cause = new Error("execution reverted");
+    client = new Client({
+      nitrolite: {},
+      token: "0x3333333333333333333333333333333333333333",
+      createNitroliteClient: () => ({ deposit: () => Promise.reject(cause) }) as any,
+    });
+
+    const error = await client.deposit(1n).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChainTransactionError);
+    expect(error).toMatchObject({ operation: "deposit", cause, message: "deposit failed: execution reverted" });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const TOKEN = "0x2222222222222222222222222222222222222222";
+const CHANNEL_ID = "0x" + "ab".repeat(32);
+
+const channel = {
+  channel_id: CHANNEL_ID,
+  participant: WALLET,
+  status: "open",
+  token: TOKEN,
+  amount: "1000000",
+  chain_id: 8453,
+  adjudicator: TOKEN,
+  challenge: 3600,
+  nonce: 1,
+  version: 2,
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+};
+
+const frames = {
+  balanceUpdate: { res: [0, "bu", { balance_updates: [{ asset: "usdc", amount: "5.5" }] }, 1], sig: [] },
+  channelsUpdate: { res: [0, "channels", { channels: [channel] }, 1], sig: [] },
+  channelUpdate: { res: [0, "cu", channel, 1], sig: [] },
+  transfer: {
+    res: [
+      0,
+      "tr",
+      {
+        transactions: [
+          {
+            id: 7,
+            tx_type: "transfer",
+            from_account: WALLET,
+            to_account: TOKEN,
+            asset: "usdc",
+            amount: "1",
+            created_at: "2025-01-01T00:00:00Z",
+          },
+        ],
+      },
+      1,
+    ],
+    sig: [],
+  },
+  appSessionUpdate: {
+    res: [
+      0,
+      "asu",
+      {
+        app_session: {
+          app_session_id: CHANNEL_ID,
+          application: "game",
+          status: "open",
+          participants: [WALLET, TOKEN],
+          protocol: "NitroRPC/0.4",
+          challenge: 0,
+          weights: [50, 50],
+          quorum: 100,
+          version: 3,
+          nonce: 1,
+          created_at: "2025-01-01T00:00:00Z",
+          updated_at: "2025-01-01T00:00:00Z",
+        },
+        participant_allocations: [{ participant: WALLET, asset: "usdc", amount: "2" }],
+      },
+      1,
+    ],
+    sig: [],
+  },
+  error: { res: [0, "error", { error: "something broke" }, 1], sig: [] },
+};
+
+describe("Client push notification events", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let socket: WebSocket;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0 });
+    const connected = new Promise<WebSocket>((resolve) => server.once("connection", resolve));
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}` });
+    await client.connect();
+    socket = await connected;
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const push = (frame: object | string) => socket.send(typeof frame === "string" ? frame : JSON.stringify(frame));
+  const next = <T>(event: any) => new Promise<T>((resolve) => client.once(event, resolve as any));
+
+  it("emits balanceUpdate with parsed params", async () => {
+    const received = next<any>("balanceUpdate");
+    push(frames.balanceUpdate);
+    expect(await received).toEqual({ balanceUpdates: [{ asset: "usdc", amount: "5.5" }] });
+  });
+
+  it("emits channelsUpdate and channelUpdate", async () => {
+    const channels = next<any>("channelsUpdate");
+    const single = next<any>("channelUpdate");
+    push(frames.channelsUpdate);
+    push(frames.channelUpdate);
+
+    expect((await channels).channels[0]).toMatchObject({ channelId: CHANNEL_ID, amount: 1000000n });
+    expect(await single).toMatchObject({ channelId: CHANNEL_ID, version: 2 });
+  });
+
+  it("emits transfer notifications", async () => {
+    const received = next<any>("transfer");
+    push(frames.transfer);
+    expect((await received).transactions[0]).toMatchObject({ id: 7, txType: "transfer", amount: "1" });
+  });
+
+  it("emits appSessionUpdate", async () => {
+    const received = next<any>("appSessionUpdate");
+    push(frames.appSessionUpdate);
+    expect(await received).toMatchObject({
+      appSessionId: CHANNEL_ID,
+      version: 3,
+      participantAllocations: [{ participant: WALLET, asset: "usdc", amount: "2" }],
+    });
+  });
+
+  it("emits error for uncorrelated error frames and unparseable frames", async () => {
+    const consoleError = vi.spyOn(console, "error");
+    const serverError = next<Error>("error");
+    push(frames.error);
+    expect((await serverError).message).toBe("something broke");
+
+    const parseError = next<Error>("error");
+    push("not json");
+    expect(await parseError).toBeInstanceOf(Error);
+    // Without a logger the client stays silent
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("supports once and off", async () => {
+    const onceListener = vi.fn();
+    const removed = vi.fn();
+    const kept = vi.fn();
+    client.once("balanceUpdate", onceListener);
+    client.on("balanceUpdate", removed);
+    client.on("balanceUpdate", kept);
+    client.off("balanceUpdate", removed);
+
+    push(frames.balanceUpdate);
+    push(frames.balanceUpdate);
+    await vi.waitFor(() => expect(kept).toHaveBeenCalledTimes(2));
+
+    expect(onceListener).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it("fires listen callbacks filtered by RPC method", async () => {
+    const balances = vi.fn();
+    const everything = vi.fn();
+    client.listen(RPCMethod.BalanceUpdate, balances);
+    client.listen(everything);
+
+    push(frames.transfer);
+    push(frames.balanceUpdate);
+    await vi.waitFor(() => expect(everything).toHaveBeenCalledTimes(2));
+
+    expect(balances).toHaveBeenCalledTimes(1);
+    expect(balances.mock.calls[0][0].method).toBe("bu");
+  });
+});
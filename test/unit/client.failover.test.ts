@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "../../src/Client";
+import { MockClearnode } from "../../src/testing";
+
+describe("Client endpoint failover", () => {
+  let primary: MockClearnode | null;
+  let secondary: MockClearnode;
+  let primaryPort: number;
+  let client: Client;
+
+  beforeEach(async () => {
+    // Reserve a port for the primary, then take it down
+    const reserved = await MockClearnode.start();
+    primaryPort = Number(new URL(reserved.url).port);
+    await reserved.close();
+    primary = null;
+    secondary = await MockClearnode.start();
+    client = new Client({
+      urls: [`ws://127.0.0.1:${primaryPort}`, secondary.url],
+      failover: { maxFailures: 2, recoveryMs: 150 },
+      backoff: { initialDelayMs: 10, maxDelayMs: 10 },
+      requestTimeoutMs: 2_000,
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await secondary.close();
+    await primary?.close();
+  });
+
+  it("fails over when the primary keeps failing", async () => {
+    const changes: string[] = [];
+    client.on("endpointChange", ({ url }) => changes.push(url));
+
+    await client.connect();
+
+    expect(client.endpoint).toBe(secondary.url);
+    expect(changes).toEqual([secondary.url]);
+    const [primaryHealth, secondaryHealth] = client.endpointHealth;
+    expect(primaryHealth).toMatchObject({ priority: 0, consecutiveFailures: 2 });
+    expect(primaryHealth.downUntil).not.toBeNull();
+    expect(secondaryHealth).toMatchObject({ priority: 1, consecutiveFailures: 0, downUntil: null });
+    expect(secondaryHealth.latencyMs).not.toBeNull();
+  });
+
+  it("returns to the primary on reconnect once it has recovered", async () => {
+    await client.connect();
+    primary = await MockClearnode.start({ port: primaryPort });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const changed = new Promise((resolve) => client.once("endpointChange", resolve));
+
+    secondary.drop();
+
+    expect(await changed).toEqual({ previous: secondary.url, url: primary.url });
+    await client.ready();
+    expect(primary.connectionCount).toBe(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "../../src/Client";
+import { MockClearnode } from "../../src/testing";
+
+describe("Client heartbeat", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    client = new Client({
+      url: clearnode.url,
+      backoff: { initialDelayMs: 10, maxDelayMs: 10 },
+      heartbeat: { intervalMs: 20, timeoutMs: 15, maxMissed: 2 },
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("pings the clearnode and reports round-trip latency", async () => {
+    const latency = new Promise<{ rttMs: number }>((resolve) => client.once("latency", resolve));
+    await client.connect();
+
+    const { rttMs } = await latency;
+
+    expect(rttMs).toBeGreaterThanOrEqual(0);
+    expect(clearnode.requests[0].method).toBe("ping");
+    expect(client.latency).toMatchObject({ lastMs: rttMs, samples: 1, missed: 0 });
+  });
+
+  it("forces a reconnect after missed pongs", async () => {
+    clearnode.handle("ping", () => undefined);
+    await client.connect();
+    const reconnecting = new Promise((resolve) => client.once("reconnecting", resolve));
+
+    await reconnecting;
+    expect(clearnode.requests.filter((request) => request.method === "ping").length).toBeGreaterThanOrEqual(2);
+
+    clearnode.handle("ping", (_params, request) => request.reply("pong", {}));
+    await new Promise((resolve) => client.once("latency", resolve));
+  });
+
+  it("stops pinging after disconnect", async () => {
+    await client.connect();
+    await new Promise((resolve) => client.once("latency", resolve));
+    await client.disconnect();
+    const pings = clearnode.requests.length;
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(clearnode.requests.length).toBe(pings);
+  });
+
+  it("is off by default", async () => {
+    client = new Client({ url: clearnode.url });
+    await client.connect();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(clearnode.requests).toHaveLength(0);
+    expect(client.latency).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer } from "ws";
+import type { AddressInfo } from "net";
+import { Client } from "../../src/Client";
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const PEER = "0x2222222222222222222222222222222222222222";
+
+const transaction = (id: number, amount: string) => ({
+  id,
+  tx_type: "transfer",
+  from_account: WALLET,
+  to_account: PEER,
+  asset: "usdc",
+  amount,
+  created_at: "2025-01-01T00:00:00Z",
+});
+
+describe("Client ledger", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let received: Frame[];
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        const [id, method, params] = frame.req;
+        const respond = (m: string, result: any) =>
+          socket.send(JSON.stringify({ res: [id, m, result, Date.now()], sig: [] }));
+        switch (method) {
+          case "get_assets":
+            return respond(method, {
+              assets: [
+                { token: PEER, chain_id: 8453, symbol: "usdc", decimals: 6 },
+                { token: WALLET, chain_id: 1, symbol: "eth", decimals: 18 },
+              ],
+            });
+          case "get_ledger_balances":
+            return respond(method, {
+              ledger_balances: [
+                { asset: "usdc", amount: "12.5" },
+                { asset: "eth", amount: "0.000000000000000001" },
+              ],
+            });
+          case "transfer":
+            return respond(method, { transactions: [transaction(1, params.allocations[0].amount)] });
+          case "get_ledger_entries":
+            return respond(method, {
+              ledger_entries: [
+                {
+                  id: 3,
+                  account_id: WALLET,
+                  account_type: 1000,
+                  asset: "usdc",
+                  participant: WALLET,
+                  credit: "1.25",
+                  debit: "0",
+                  created_at: "2025-01-01T00:00:00Z",
+                },
+              ],
+            });
+          case "get_ledger_transactions":
+            return respond(method, { ledger_transactions: [transaction(5, "2"), transaction(6, "0.5")] });
+          default:
+            return respond("error", { error: `unsupported method ${method}` });
+        }
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}`, requestTimeoutMs: 5_000 });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const methods = () => received.map((frame) => frame.req[1]);
+
+  it("parses balances into bigint amounts with asset decimals", async () => {
+    const balances = await client.getLedgerBalances(WALLET);
+
+    expect(balances).toEqual([
+      { asset: "usdc", amount: 12_500_000n, decimals: 6 },
+      { asset: "eth", amount: 1n, decimals: 18 },
+    ]);
+    expect(received.find((frame) => frame.req[1] === "get_ledger_balances")!.req[2]).toEqual({ account_id: WALLET });
+  });
+
+  it("fetches asset decimals once", async () => {
+    await client.getLedgerBalances();
+    await client.getLedgerBalances();
+
+    expect(methods().filter((method) => method === "get_assets")).toHaveLength(1);
+  });
+
+  it("formats transfer amounts with asset decimals", async () => {
+    const transactions = await client.transfer({
+      destination: PEER,
+      allocations: [{ asset: "usdc", amount: 1_500_000n }],
+    });
+
+    const frame = received.find((f) => f.req[1] === "transfer")!;
+    expect(frame.req[2]).toEqual({ destination: PEER, allocations: [{ asset: "usdc", amount: "1.5" }] });
+    expect(transactions[0]).toMatchObject({ id: 1, amount: 1_500_000n, decimals: 6 });
+  });
+
+  it("rejects transfers of unknown assets before sending", async () => {
+    await expect(
+      client.transfer({ destination: PEER, allocations: [{ asset: "doge", amount: 1n }] })
+    ).rejects.toThrow("Unknown asset: doge");
+    expect(methods()).not.toContain("transfer");
+  });
+
+  it("parses ledger entries", async () => {
+    const entries = await client.getLedgerEntries({ asset: "usdc", accountId: WALLET });
+
+    expect(received.find((f) => f.req[1] === "get_ledger_entries")!.req[2]).toEqual({
+      account_id: WALLET,
+      asset: "usdc",
+    });
+    expect(entries[0]).toMatchObject({ id: 3, credit: 1_250_000n, debit: 0n, decimals: 6 });
+  });
+
+  it("passes pagination filters to get_ledger_transactions", async () => {
+    const page = await client.getLedgerTransactions({ accountId: WALLET, offset: 10, limit: 2, sort: "desc" });
+
+    expect(received.find((f) => f.req[1] === "get_ledger_transactions")!.req[2]).toEqual({
+      account_id: WALLET,
+      offset: 10,
+      limit: 2,
+      sort: "desc",
+    });
+    expect(page.map((tx) => tx.amount)).toEqual([2_000_000n, 500_000n]);
+  });
+});
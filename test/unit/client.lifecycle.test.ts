@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Client } from "../../src/Client";
+import { ChainTransactionError } from "../../src/errors";
+import { MockClearnode } from "../../src/testing";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const BROKER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const ADJUDICATOR = "0x4444444444444444444444444444444444444444";
+const WETH = "0x5555555555555555555555555555555555555555";
+const CHANNEL_ID = `0x${"ab".repeat(32)}`;
+const SIGNATURE = `0x${"cd".repeat(65)}`;
+const INITIAL_STATE = { intent: 1, version: 0n, data: "0x", allocations: [], sigs: [SIGNATURE, SIGNATURE] };
+
+const channel = (token: string) => ({
+  channel_id: CHANNEL_ID,
+  participant: WALLET,
+  wallet: WALLET,
+  status: "open",
+  token,
+  amount: "500",
+  chain_id: 8453,
+  adjudicator: ADJUDICATOR,
+  challenge: 3600,
+  nonce: 7,
+  version: 1,
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+});
+
+const operation = (version: number, amount: string) => ({
+  channel_id: CHANNEL_ID,
+  state: {
+    intent: version === 0 ? 1 : 2,
+    version,
+    state_data: "0x",
+    allocations: [
+      { destination: WALLET, token: TOKEN, amount },
+      { destination: BROKER, token: TOKEN, amount: "0" },
+    ],
+  },
+  server_signature: SIGNATURE,
+});
+
+describe("Client channel lifecycle", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+  let onChain: string[];
+  let custody: bigint;
+  let nitrolite: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    clearnode
+      .handle("get_assets", {
+        assets: [
+          { token: TOKEN, chain_id: 8453, symbol: "usdc", decimals: 6 },
+          { token: WETH, chain_id: 8453, symbol: "weth", decimals: 18 },
+        ],
+      })
+      .handle("get_channels", { channels: [channel(TOKEN)] })
+      .handle("create_channel", {
+        ...operation(0, "0"),
+        channel: { participants: [WALLET, BROKER], adjudicator: ADJUDICATOR, challenge: 3600, nonce: 7 },
+      })
+      .handle("resize_channel", operation(1, "500"))
+      .handle("close_channel", { ...operation(2, "500"), state: { ...operation(2, "500").state, intent: 3 } });
+    onChain = [];
+    custody = 1_000n;
+    nitrolite = {
+      getOpenChannels: vi.fn(async () => onChain),
+      getAccountBalance: vi.fn(async () => custody),
+      getChannelData: vi.fn(async () => ({ lastValidState: INITIAL_STATE })),
+      deposit: vi.fn(async (_token: string, amount: bigint) => {
+        custody += amount;
+        return "0xdeposit";
+      }),
+      createChannel: vi.fn(async () => {
+        onChain.push(CHANNEL_ID);
+        return { channelId: CHANNEL_ID, initialState: {}, txHash: "0xcreate" };
+      }),
+      depositAndCreateChannel: vi.fn(async () => {
+        onChain.push(CHANNEL_ID);
+        return { channelId: CHANNEL_ID, initialState: {}, depositTxHash: "0xdeposit", createChannelTxHash: "0xcreate" };
+      }),
+      resizeChannel: vi.fn(async ({ resizeState }) => ({ resizeState, txHash: "0xresize" })),
+      closeChannel: vi.fn(async () => {
+        onChain.length = 0;
+        return "0xclose";
+      }),
+      withdrawal: vi.fn().mockResolvedValue("0xwithdraw"),
+    };
+    client = new Client({
+      url: clearnode.url,
+      requestTimeoutMs: 1_000,
+      nitrolite: { chainId: 8453, walletClient: { account: { address: WALLET } } },
+      token: TOKEN,
+      createNitroliteClient: () => nitrolite as any,
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("opens a funded channel", async () => {
+    const result = await client.openChannel("USDC", 500n);
+
+    expect(result).toEqual({ channelId: CHANNEL_ID, txHashes: ["0xdeposit", "0xcreate", "0xresize"] });
+    expect(clearnode.requests.find((r) => r.method === "create_channel")?.params).toEqual({ chain_id: 8453, token: TOKEN });
+    expect(nitrolite.depositAndCreateChannel).toHaveBeenCalledWith(TOKEN, 500n, {
+      channel: { participants: [WALLET, BROKER], adjudicator: ADJUDICATOR, challenge: 3600n, nonce: 7n },
+      unsignedInitialState: expect.objectContaining({ intent: 1, version: 0n, data: "0x" }),
+      serverSignature: SIGNATURE,
+    });
+    expect(clearnode.requests.find((r) => r.method === "resize_channel")?.params).toEqual({
+      channel_id: CHANNEL_ID,
+      resize_amount: "500",
+      funds_destination: WALLET,
+    });
+    expect(nitrolite.resizeChannel).toHaveBeenCalledWith({
+      resizeState: expect.objectContaining({ channelId: CHANNEL_ID, version: 1n, serverSignature: SIGNATURE }),
+      proofStates: [INITIAL_STATE],
+    });
+    expect(nitrolite.getChannelData).toHaveBeenCalledWith(CHANNEL_ID);
+    expect(await client.pendingChannelFlows()).toEqual([]);
+  });
+
+  it("resumes an interrupted flow without repeating completed steps", async () => {
+    nitrolite.resizeChannel.mockRejectedValueOnce(new Error("replacement transaction underpriced"));
+
+    await expect(client.openChannel("usdc", 500n)).rejects.toBeInstanceOf(ChainTransactionError);
+    expect(await client.pendingChannelFlows()).toEqual([
+      expect.objectContaining({
+        kind: "open",
+        channelId: CHANNEL_ID,
+        completed: ["create_channel", "depositAndCreateChannel", "resize_channel"],
+      }),
+    ]);
+
+    const [result] = await client.resumeChannelFlows();
+
+    expect(result.txHashes).toEqual(["0xdeposit", "0xcreate", "0xresize"]);
+    expect(clearnode.requests.filter((r) => r.method === "create_channel")).toHaveLength(1);
+    expect(nitrolite.depositAndCreateChannel).toHaveBeenCalledTimes(1);
+    await expect(client.openChannel("usdc", 1n)).resolves.toBeDefined();
+  });
+
+  it("refuses a different amount while a flow is unfinished", async () => {
+    nitrolite.depositAndCreateChannel.mockRejectedValueOnce(new Error("insufficient funds"));
+    await expect(client.openChannel("usdc", 500n)).rejects.toThrow("insufficient funds");
+
+    await expect(client.openChannel("usdc", 600n)).rejects.toThrow("with amount 500 is unfinished");
+  });
+
+  it("tops up a channel", async () => {
+    const result = await client.topUp(CHANNEL_ID, 500n);
+
+    expect(nitrolite.deposit).toHaveBeenCalledWith(TOKEN, 500n);
+    expect(result).toEqual({ channelId: CHANNEL_ID, txHashes: ["0xdeposit", "0xresize"] });
+  });
+
+  it("skips a deposit that landed before an interruption", async () => {
+    // The deposit lands but the receipt never arrives
+    nitrolite.deposit.mockImplementationOnce(async (_token: string, amount: bigint) => {
+      custody += amount;
+      throw new Error("timed out waiting for receipt");
+    });
+    await expect(client.topUp(CHANNEL_ID, 500n)).rejects.toThrow("timed out waiting for receipt");
+
+    const result = await client.topUp(CHANNEL_ID, 500n);
+
+    expect(nitrolite.deposit).toHaveBeenCalledTimes(1);
+    expect(result.txHashes).toEqual(["0xresize"]);
+  });
+
+  it("only creates the channel when the deposit half already landed", async () => {
+    nitrolite.depositAndCreateChannel.mockImplementationOnce(async () => {
+      custody += 500n;
+      throw new Error("channel creation reverted");
+    });
+    await expect(client.openChannel("usdc", 500n)).rejects.toThrow("channel creation reverted");
+
+    const result = await client.openChannel("usdc", 500n);
+
+    expect(nitrolite.depositAndCreateChannel).toHaveBeenCalledTimes(1);
+    expect(nitrolite.createChannel).toHaveBeenCalledTimes(1);
+    expect(result.txHashes).toEqual(["0xcreate", "0xresize"]);
+  });
+
+  it("closes a channel and withdraws the account's share", async () => {
+    onChain.push(CHANNEL_ID);
+
+    const result = await client.closeAndWithdraw(CHANNEL_ID);
+
+    expect(nitrolite.closeChannel).toHaveBeenCalledWith({
+      finalState: expect.objectContaining({ channelId: CHANNEL_ID, intent: 3, version: 2n }),
+      stateData: "0x",
+    });
+    expect(nitrolite.withdrawal).toHaveBeenCalledWith(TOKEN, 500n);
+    expect(result.txHashes).toEqual(["0xclose", "0xwithdraw"]);
+  });
+
+  it("skips an on-chain close that already landed", async () => {
+    // The close transaction lands but the receipt never arrives
+    nitrolite.closeChannel.mockImplementationOnce(async () => {
+      onChain.length = 0;
+      throw new Error("timed out waiting for receipt");
+    });
+    onChain.push(CHANNEL_ID);
+    await expect(client.closeAndWithdraw(CHANNEL_ID)).rejects.toThrow("timed out waiting for receipt");
+
+    const result = await client.closeAndWithdraw(CHANNEL_ID);
+
+    expect(nitrolite.closeChannel).toHaveBeenCalledTimes(1);
+    expect(result.txHashes).toEqual(["0xwithdraw"]);
+  });
+
+  it("skips a withdrawal that landed before an interruption", async () => {
+    nitrolite.withdrawal.mockImplementationOnce(async (_token: string, amount: bigint) => {
+      custody -= amount;
+      throw new Error("timed out waiting for receipt");
+    });
+    onChain.push(CHANNEL_ID);
+    await expect(client.closeAndWithdraw(CHANNEL_ID)).rejects.toThrow("timed out waiting for receipt");
+
+    const result = await client.closeAndWithdraw(CHANNEL_ID);
+
+    expect(nitrolite.withdrawal).toHaveBeenCalledTimes(1);
+    expect(result.txHashes).toEqual(["0xclose"]);
+  });
+
+  it("runs the on-chain calls of every flow on the channel's asset", async () => {
+    await client.openChannel("weth", 500n);
+
+    expect(clearnode.requests.find((r) => r.method === "create_channel")?.params).toEqual({ chain_id: 8453, token: WETH });
+    expect(nitrolite.depositAndCreateChannel).toHaveBeenCalledWith(WETH, 500n, expect.anything());
+
+    clearnode.handle("get_channels", { channels: [channel(WETH)] });
+    await client.topUp(CHANNEL_ID, 500n);
+    await client.closeAndWithdraw(CHANNEL_ID);
+
+    expect(clearnode.requests.find((r) => r.method === "get_channels")?.params).toEqual({ participant: WALLET });
+    expect(nitrolite.deposit).toHaveBeenCalledWith(WETH, 500n);
+    expect(nitrolite.withdrawal).toHaveBeenCalledWith(WETH, 500n);
+    expect(nitrolite.getAccountBalance.mock.calls.every(([token]) => token === WETH)).toBe(true);
+  });
+});
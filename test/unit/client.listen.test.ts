@@ -1,22 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { Client } from "../../src/Client";
 
-// Mock websocket-ts to avoid network dependencies
-vi.mock("websocket-ts", () => ({
-  ExponentialBackoff: vi.fn().mockImplementation(() => ({})),
-  WebsocketBuilder: vi.fn().mockImplementation(() => ({
-    withBackoff: vi.fn().mockReturnThis(),
-    onOpen: vi.fn().mockReturnThis(),
-    onClose: vi.fn().mockReturnThis(),
-    onMessage: vi.fn().mockReturnThis(),
-    onError: vi.fn().mockReturnThis(),
-    build: vi.fn().mockReturnValue({
-      close: vi.fn(),
-      send: vi.fn(),
-    }),
-  })),
-}));
-
 // Mock nitrolite to avoid dependency
 vi.mock("@erc7824/nitrolite", () => ({
   default: {
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { DisconnectedError, FrameBlockedError, TimeoutError } from "../../src/errors";
+import { loggingMiddleware, timingMiddleware, type LogEntry, type RequestTiming } from "../../src/middleware";
+import { MockClearnode } from "../../src/testing";
+
+describe("Client middleware", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 500, retry: false });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("rewrites outgoing and incoming frames in order", async () => {
+    clearnode.handle("get_config", { broker_address: "0x1111111111111111111111111111111111111111", networks: [] });
+    const order: string[] = [];
+    client.use({
+      onSend: async (frame) => {
+        order.push("outer send");
+        const parsed = JSON.parse(frame);
+        return JSON.stringify({ ...parsed, sig: ["0xsigned"] });
+      },
+      onReceive: (frame) => {
+        order.push("outer receive");
+        return frame.replace("0x2222222222222222222222222222222222222222", "0x3333333333333333333333333333333333333333");
+      },
+    });
+    client.use({
+      onSend: () => void order.push("inner send"),
+      onReceive: (frame) => {
+        order.push("inner receive");
+        return frame.replace("0x1111111111111111111111111111111111111111", "0x2222222222222222222222222222222222222222");
+      },
+    });
+
+    const config = await client.call(RPCMethod.GetConfig);
+
+    expect(config.brokerAddress).toBe("0x3333333333333333333333333333333333333333");
+    expect(clearnode.requests[0].sig).toEqual(["0xsigned"]);
+    expect(order).toEqual(["outer send", "inner send", "inner receive", "outer receive"]);
+  });
+
+  it("does not send a frame on the next connection when the socket drops during a middleware", async () => {
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 500, retry: false, backoff: { initialDelayMs: 10, maxDelayMs: 10 } });
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    client.use({ onSend: async (frame, { method }) => (method === RPCMethod.GetConfig ? released.then(() => frame) : frame) });
+    await client.connect();
+
+    const pending = client.call(RPCMethod.GetConfig).catch((e) => e);
+    const reconnected = new Promise<void>((resolve) => client.on("stateChange", ({ state }) => state === "open" && resolve()));
+    clearnode.drop();
+    await reconnected;
+    release();
+
+    expect(await pending).toBeInstanceOf(DisconnectedError);
+    clearnode.handle("get_assets", { assets: [] });
+    await client.call(RPCMethod.GetAssets);
+    expect(clearnode.requests.map((r) => r.method)).toEqual(["get_assets"]);
+  });
+
+  it("rejects blocked requests and drops blocked notifications", async () => {
+    const errors: Error[] = [];
+    const balanceUpdate = vi.fn();
+    client.on("balanceUpdate", balanceUpdate);
+    const remove = client.use({
+      name: "read-only",
+      onSend: (frame, { method }) => (method === RPCMethod.Transfer ? null : frame),
+      onReceive: (frame, { method }) => (method === "bu" ? null : undefined),
+      onError: (error) => errors.push(error),
+    });
+
+    const error = await client.call(RPCMethod.Transfer, { destination: "0x1111111111111111111111111111111111111111", allocations: [] }).catch((e) => e);
+    await clearnode.waitForConnection();
+    clearnode.push("bu", { balance_updates: [{ asset: "usdc", amount: "1" }] });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(error).toBeInstanceOf(FrameBlockedError);
+    expect(error).toMatchObject({ middleware: "read-only", method: RPCMethod.Transfer });
+    expect(errors).toEqual([error]);
+    expect(clearnode.requests).toHaveLength(0);
+    expect(balanceUpdate).not.toHaveBeenCalled();
+
+    remove();
+    const received = new Promise((resolve) => client.once("balanceUpdate", resolve));
+    clearnode.push("bu", { balance_updates: [{ asset: "usdc", amount: "2" }] });
+    await expect(received).resolves.toEqual({ balanceUpdates: [{ asset: "usdc", amount: "2" }] });
+  });
+
+  it("logs frames with secrets redacted", async () => {
+    clearnode.handle("get_assets", { assets: [] });
+    const entries: LogEntry[] = [];
+    client.use({ onSend: (frame) => JSON.stringify({ ...JSON.parse(frame), sig: ["0xsecret"] }) });
+    client.use(loggingMiddleware({ log: (entry) => entries.push(entry) }));
+
+    await client.call(RPCMethod.GetAssets);
+
+    expect(entries.map(({ direction, method }) => [direction, method])).toEqual([
+      ["send", "get_assets"],
+      ["receive", "get_assets"],
+    ]);
+    expect(JSON.stringify(entries)).not.toContain("0xsecret");
+    expect(entries[0].frame).toMatchObject({ req: [1, "get_assets", {}, expect.any(Number)], sig: ["[redacted]"] });
+  });
+
+  it("times answered and failed requests", async () => {
+    clearnode.handle("get_assets", { assets: [] });
+    clearnode.handle("get_config", () => undefined);
+    const timings: RequestTiming[] = [];
+    client.use(timingMiddleware({ onTiming: (timing) => timings.push(timing) }));
+
+    await client.call(RPCMethod.GetAssets);
+    await expect(client.call(RPCMethod.GetConfig)).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(timings).toEqual([
+      { requestId: 1, method: "get_assets", durationMs: expect.any(Number) },
+      { requestId: 2, method: "get_config", durationMs: expect.any(Number), error: expect.any(TimeoutError) },
+    ]);
+    expect(timings[1].durationMs).toBeGreaterThanOrEqual(450);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { TimeoutError } from "../../src/errors";
+import { METRICS, consoleLogger, type Logger, type Metrics } from "../../src/logger";
+import { MockClearnode } from "../../src/testing";
+
+const fakeLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }) satisfies Logger;
+const fakeMetrics = () => ({ increment: vi.fn(), observe: vi.fn(), gauge: vi.fn() }) satisfies Metrics;
+
+describe("Client logger and metrics", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+  let logger: ReturnType<typeof fakeLogger>;
+  let metrics: ReturnType<typeof fakeMetrics>;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    logger = fakeLogger();
+    metrics = fakeMetrics();
+    client = new Client({
+      url: clearnode.url,
+      requestTimeoutMs: 200,
+      retry: false,
+      backoff: { initialDelayMs: 10, maxDelayMs: 10 },
+      logger,
+      metrics,
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("logs listener errors and unparseable frames instead of writing to the console", async () => {
+    const consoleWarn = vi.spyOn(console, "warn");
+    const failure = new Error("listener failed");
+    client.on("balanceUpdate", () => {
+      throw failure;
+    });
+    client.listen(() => {
+      throw failure;
+    });
+    await client.connect();
+    await clearnode.waitForConnection();
+    const parseError = new Promise((resolve) => client.once("error", resolve));
+
+    clearnode.push("bu", { balance_updates: [] });
+    await vi.waitFor(() => expect(logger.warn).toHaveBeenCalledTimes(2));
+    (client as any).receive("not json");
+    await parseError;
+
+    expect(logger.warn).toHaveBeenCalledWith("Listener error", { error: failure });
+    expect(logger.error).toHaveBeenCalledWith("Error parsing message", { data: "not json", error: expect.any(Error) });
+    expect(consoleWarn).not.toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+
+  it("reports request latency, timeouts, pending requests and messages per method", async () => {
+    clearnode.handle("get_assets", { assets: [] });
+    clearnode.handle("get_config", () => undefined);
+
+    await client.call(RPCMethod.GetAssets);
+    await expect(client.call(RPCMethod.GetConfig)).rejects.toBeInstanceOf(TimeoutError);
+
+    expect(metrics.observe).toHaveBeenCalledWith(METRICS.requestDuration, expect.any(Number), { method: "get_assets", outcome: "ok" });
+    expect(metrics.observe).toHaveBeenCalledWith(METRICS.requestDuration, expect.any(Number), { method: "get_config", outcome: "timeout" });
+    expect(metrics.increment).toHaveBeenCalledWith(METRICS.requestTimeouts, { method: "get_config" });
+    expect(metrics.increment).toHaveBeenCalledWith(METRICS.messages, { direction: "send", method: "get_assets" });
+    expect(metrics.increment).toHaveBeenCalledWith(METRICS.messages, { direction: "receive", method: "get_assets" });
+    expect(metrics.gauge.mock.calls.filter(([name]) => name === METRICS.pendingRequests).map(([, value]) => value)).toEqual([1, 0, 1, 0]);
+  });
+
+  it("counts reconnects", async () => {
+    await client.connect();
+    await clearnode.waitForConnection();
+    const reconnected = new Promise((resolve) => client.once("reconnecting", resolve));
+
+    clearnode.drop();
+    await reconnected;
+
+    expect(metrics.increment).toHaveBeenCalledWith(METRICS.reconnects);
+    expect(logger.info).toHaveBeenCalledWith("Reconnecting", expect.objectContaining({ attempt: expect.any(Number) }));
+  });
+
+  it("filters console output below the configured level", () => {
+    const consoleInfo = vi.spyOn(console, "info").mockImplementation(() => {});
+    const consoleDebug = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const log = consoleLogger("info");
+    log.debug("hidden");
+    log.info("shown", { requestId: 1 });
+
+    expect(consoleDebug).not.toHaveBeenCalled();
+    expect(consoleInfo).toHaveBeenCalledWith("shown", { requestId: 1 });
+    consoleInfo.mockRestore();
+    consoleDebug.mockRestore();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { encodeAbiParameters, encodeFunctionData, erc20Abi } from "viem";
+import { Client } from "../../src/Client";
+import { ChainTransactionError } from "../../src/errors";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const CUSTODY = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x3333333333333333333333333333333333333333";
+const BROKER = "0x4444444444444444444444444444444444444444";
+
+const approve = (amount: bigint) => ({
+  address: TOKEN,
+  abi: erc20Abi,
+  functionName: "approve",
+  args: [CUSTODY, amount],
+  account: { address: WALLET },
+});
+
+describe("Client transaction previews", () => {
+  let client: Client;
+  let estimateContractGas: ReturnType<typeof vi.fn>;
+  let txPreparer: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    estimateContractGas = vi.fn().mockResolvedValue(46_000n);
+    txPreparer = {
+      prepareDepositTransactions: vi.fn(async (_token: string, amount: bigint) => [
+        approve(amount),
+        { ...approve(amount), value: 1n },
+      ]),
+      prepareWithdrawalTransaction: vi.fn(async (_token: string, amount: bigint) => approve(amount)),
+      prepareResizeChannelTransaction: vi.fn(async () => approve(0n)),
+      prepareCloseChannelTransaction: vi.fn(async () => approve(0n)),
+    };
+    client = new Client({
+      url: "ws://127.0.0.1:1",
+      nitrolite: {
+        publicClient: { estimateContractGas },
+        walletClient: { account: { address: WALLET } },
+        addresses: { custody: CUSTODY },
+      },
+      token: TOKEN,
+      createNitroliteClient: () => ({ txPreparer }) as any,
+    });
+  });
+
+  it("returns unsigned transactions, gas and balance changes for a deposit", async () => {
+    estimateContractGas.mockResolvedValueOnce(46_000n).mockResolvedValueOnce(80_000n);
+
+    const preview = await client.prepareDeposit(5n);
+
+    expect(txPreparer.prepareDepositTransactions).toHaveBeenCalledWith(TOKEN, 5n);
+    expect(preview.transactions).toHaveLength(2);
+    expect(preview.transactions[0]).toMatchObject({
+      from: WALLET,
+      to: TOKEN,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [CUSTODY, 5n] }),
+      value: 0n,
+      gas: 46_000n,
+    });
+    expect(preview.transactions[1].value).toBe(1n);
+    expect(preview.gas).toBe(126_000n);
+    expect(preview.balanceChanges).toEqual([
+      { location: "wallet", token: TOKEN, amount: -5n },
+      { location: "custody", token: TOKEN, amount: 5n },
+    ]);
+  });
+
+  it("reports unknown gas when a transaction cannot be estimated yet", async () => {
+    estimateContractGas.mockRejectedValueOnce(new Error("insufficient allowance"));
+
+    const preview = await client.prepareWithdrawal(3n);
+
+    expect(txPreparer.prepareWithdrawalTransaction).toHaveBeenCalledWith(TOKEN, 3n);
+    expect(preview.transactions[0].gas).toBeNull();
+    expect(preview.gas).toBeNull();
+    expect(preview.balanceChanges).toEqual([
+      { location: "custody", token: TOKEN, amount: -3n },
+      { location: "wallet", token: TOKEN, amount: 3n },
+    ]);
+  });
+
+  it("derives channel balance changes from resize and final states", async () => {
+    const allocations = [
+      { destination: WALLET, token: TOKEN, amount: 700n },
+      { destination: BROKER, token: TOKEN, amount: 0n },
+    ];
+    const resizeState = { data: encodeAbiParameters([{ type: "int256[]" }], [[-300n, 0n]]), allocations };
+
+    const resize = await client.prepareResizeChannel({ resizeState, proofStates: [] });
+    const close = await client.prepareCloseChannel({ finalState: { allocations }, stateData: "0x" });
+
+    expect(resize.balanceChanges).toEqual([
+      { location: "custody", token: TOKEN, amount: 300n },
+      { location: "channel", token: TOKEN, amount: -300n },
+    ]);
+    expect(close.balanceChanges).toEqual([
+      { location: "channel", token: TOKEN, amount: -700n },
+      { location: "custody", token: TOKEN, amount: 700n },
+    ]);
+  });
+
+  it("wraps failed simulations in ChainTransactionError", async () => {
+    txPreparer.prepareWithdrawalTransaction.mockRejectedValueOnce(new Error("execution reverted"));
+
+    await expect(client.prepareWithdrawal(1n)).rejects.toBeInstanceOf(ChainTransactionError);
+  });
+});
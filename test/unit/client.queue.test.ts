@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { Client } from "../../src/Client";
+import { QueueDeadlineError, QueueOverflowError } from "../../src/errors";
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+const ping = (id: number) => ({ req: [id, "ping", {}, Date.now()], sig: [] });
+
+describe("Client offline queue", () => {
+  let server: WebSocketServer;
+  let port: number;
+  let client: Client;
+  let sockets: WebSocket[];
+  let received: number[];
+  let dropOnIds: Set<number>;
+
+  beforeEach(async () => {
+    sockets = [];
+    received = [];
+    dropOnIds = new Set();
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      sockets.push(socket);
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        const id = frame.req[0];
+        received.push(id);
+        if (dropOnIds.delete(id)) {
+          socket.terminate();
+          return;
+        }
+        socket.send(JSON.stringify({ res: [id, "pong", {}, Date.now()], sig: [] }));
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createClient = (queue: { maxSize?: number; deadlineMs?: number }, initialDelayMs = 10) =>
+    new Client({
+      url: `ws://127.0.0.1:${port}`,
+      requestTimeoutMs: 5_000,
+      backoff: { initialDelayMs, maxDelayMs: initialDelayMs },
+      queue,
+    });
+
+  // Resolves while the client is still waiting out its reconnect backoff
+  const dropConnection = async () => {
+    sockets[sockets.length - 1].terminate();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  };
+
+  it("buffers requests issued before connecting and flushes them in order", async () => {
+    client = createClient({});
+
+    const responses = await Promise.all([
+      client.sendMessage(ping(1)),
+      client.sendMessage(ping(2)),
+      client.sendMessage(ping(3)),
+    ]);
+
+    expect(received).toEqual([1, 2, 3]);
+    expect(responses.map((r: any) => r.requestId)).toEqual([1, 2, 3]);
+  });
+
+  it("buffers requests issued while reconnecting", async () => {
+    client = createClient({}, 100);
+    await client.connect();
+    await dropConnection();
+
+    const response: any = await client.sendMessage(ping(7));
+
+    expect(response.requestId).toBe(7);
+  });
+
+  it("rejects with QueueOverflowError when the queue is full", async () => {
+    client = createClient({ maxSize: 1 }, 200);
+    await client.connect();
+    await dropConnection();
+
+    const first = client.sendMessage(ping(1));
+    await expect(client.sendMessage(ping(2))).rejects.toBeInstanceOf(QueueOverflowError);
+    await expect(first).resolves.toMatchObject({ requestId: 1 });
+  });
+
+  it("rejects with QueueDeadlineError when a request waits too long", async () => {
+    client = createClient({ deadlineMs: 20 }, 200);
+    await client.connect();
+    await dropConnection();
+
+    await expect(client.sendMessage(ping(1))).rejects.toBeInstanceOf(QueueDeadlineError);
+    expect(received).not.toContain(1);
+  });
+
+  it("re-queues idempotent in-flight requests on disconnect and rejects the rest", async () => {
+    client = createClient({});
+    await client.connect();
+    dropOnIds.add(1);
+
+    const idempotent = client.sendMessage(ping(1), { idempotent: true });
+    const other = client.sendMessage(ping(2), { idempotent: false });
+
+    await expect(other).rejects.toThrow("Disconnected");
+    await expect(idempotent).resolves.toMatchObject({ requestId: 1 });
+    expect(received.filter((id) => id === 1)).toHaveLength(2);
+  });
+});
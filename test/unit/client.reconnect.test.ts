@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { Client } from "../../src/Client";
+import { AuthError } from "../../src/errors";
+
+const wallet = createWalletClient({
+  account: privateKeyToAccount(generatePrivateKey()),
+  chain: base,
+  transport: http(),
+});
+const sessionKey = privateKeyToAccount(generatePrivateKey()).address;
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+function reply(socket: WebSocket, id: number, method: string, params: any) {
+  socket.send(JSON.stringify({ res: [id, method, params, Date.now()], sig: [] }));
+}
+
+describe("Client reconnect", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let sockets: WebSocket[];
+  let received: Frame[];
+  let acceptJwt: boolean;
+  let acceptChallenge: boolean;
+  let jwtDelayMs: number;
+
+  beforeEach(async () => {
+    sockets = [];
+    received = [];
+    acceptJwt = true;
+    acceptChallenge = true;
+    jwtDelayMs = 0;
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      sockets.push(socket);
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        const [id, method, params] = frame.req;
+        const verified = {
+          address: wallet.account.address,
+          session_key: sessionKey,
+          success: true,
+          jwt_token: "jwt-token",
+        };
+        if (method === "auth_request") {
+          reply(socket, id, "auth_challenge", { challenge_message: "challenge-uuid" });
+        } else if (method === "auth_verify" && params.jwt) {
+          setTimeout(() => {
+            if (acceptJwt) reply(socket, id, "auth_verify", verified);
+            else reply(socket, id, "error", { error: "invalid jwt" });
+          }, jwtDelayMs);
+        } else if (method === "auth_verify") {
+          if (acceptChallenge) reply(socket, id, "auth_verify", verified);
+          else reply(socket, id, "error", { error: "invalid signature" });
+        } else if (method === "ping") {
+          reply(socket, id, "pong", {});
+        }
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({
+      url: `ws://127.0.0.1:${port}`,
+      requestTimeoutMs: 5_000,
+      backoff: { initialDelayMs: 10, maxDelayMs: 10 },
+    });
+    await client.authenticate({
+      signer: wallet,
+      sessionKey,
+      allowances: [],
+      scope: "test.app",
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    });
+    received = [];
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const dropConnection = () => sockets[sockets.length - 1].terminate();
+
+  it("re-authenticates with the stored JWT after a reconnect", async () => {
+    const events: string[] = [];
+    client.on("reconnecting", () => events.push("reconnecting"));
+    const reauthenticated = new Promise((resolve) => client.once("reauthenticated", resolve));
+
+    dropConnection();
+    const session = await reauthenticated;
+
+    expect(events[0]).toBe("reconnecting");
+    expect(session).toEqual(client.session);
+    expect(client.isAuthenticated).toBe(true);
+    expect(received.map((f) => f.req[1])).toEqual(["auth_verify"]);
+    expect(received[0].req[2]).toEqual({ jwt: "jwt-token" });
+  });
+
+  it("holds requests issued during reconnect until re-authentication completes", async () => {
+    jwtDelayMs = 50;
+    const reconnecting = new Promise((resolve) => client.once("reconnecting", resolve));
+
+    dropConnection();
+    await reconnecting;
+    const response: any = await client.sendMessage({ req: [9001, "ping", {}, Date.now()], sig: [] });
+
+    expect(response.method).toBe("pong");
+    expect(received.map((f) => f.req[1])).toEqual(["auth_verify", "ping"]);
+  });
+
+  it("falls back to a full handshake when the JWT is rejected", async () => {
+    acceptJwt = false;
+    const reauthenticated = new Promise((resolve) => client.once("reauthenticated", resolve));
+
+    dropConnection();
+    await reauthenticated;
+
+    expect(received.map((f) => f.req[1])).toEqual(["auth_verify", "auth_request", "auth_verify"]);
+    expect(client.isAuthenticated).toBe(true);
+  });
+
+  it("emits an error and forgets the session when re-authentication fails", async () => {
+    acceptJwt = false;
+    acceptChallenge = false;
+    const failed = new Promise<Error>((resolve) => client.once("error", resolve));
+
+    dropConnection();
+
+    expect(await failed).toBeInstanceOf(AuthError);
+    expect(client.isAuthenticated).toBe(false);
+    expect(client.session).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { RpcError, TimeoutError } from "../../src/errors";
+import { MockClearnode } from "../../src/testing";
+
+const retry = { initialDelayMs: 1, maxDelayMs: 5 };
+
+describe("Client retries", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 50, retry });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  // Leaves the first `count` requests unanswered
+  const dropFirst = (method: string, count: number, result: object) => {
+    let seen = 0;
+    clearnode.handle(method, () => (++seen > count ? result : undefined));
+  };
+
+  const requestsFor = (method: string) => clearnode.requests.filter((request) => request.method === method);
+
+  it("retries idempotent methods with a fresh request id", async () => {
+    dropFirst("get_config", 1, { broker_address: "0x1111111111111111111111111111111111111111", networks: [] });
+
+    await expect(client.call(RPCMethod.GetConfig)).resolves.toMatchObject({ networks: [] });
+
+    const [first, second] = requestsFor("get_config");
+    expect(requestsFor("get_config")).toHaveLength(2);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    clearnode.handle("get_channels", () => undefined);
+
+    await expect(client.call(RPCMethod.GetChannels, {}, { retry: { maxAttempts: 2 } })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+    expect(requestsFor("get_channels")).toHaveLength(2);
+  });
+
+  it("never retries transfers", async () => {
+    clearnode.handle("transfer", () => undefined);
+
+    await expect(client.call(RPCMethod.Transfer, { allocations: [] })).rejects.toBeInstanceOf(TimeoutError);
+    expect(requestsFor("transfer")).toHaveLength(1);
+  });
+
+  it("retries methods marked idempotent per call, and not when retry is disabled", async () => {
+    dropFirst("get_user_tag", 1, { tag: "ABC" });
+    clearnode.handle("get_session_keys", () => undefined);
+
+    await expect(client.call(RPCMethod.GetUserTag, {}, { idempotent: true })).resolves.toEqual({ tag: "ABC" });
+    await expect(client.call(RPCMethod.GetSessionKeys, {}, { retry: false })).rejects.toBeInstanceOf(TimeoutError);
+    expect(requestsFor("get_session_keys")).toHaveLength(1);
+  });
+
+  it("does not retry RPC errors unless asked to", async () => {
+    let failures = 1;
+    clearnode.handle("get_assets", () => {
+      if (failures-- > 0) throw new Error("busy");
+      return { assets: [] };
+    });
+
+    await expect(client.call(RPCMethod.GetAssets)).rejects.toBeInstanceOf(RpcError);
+
+    failures = 1;
+    const busy = (error: unknown) => error instanceof RpcError && error.message === "busy";
+    await expect(client.call(RPCMethod.GetAssets, {}, { retry: { retryOn: busy } })).resolves.toEqual({ assets: [] });
+  });
+
+  it("retries RpcError codes and resends pre-signed messages with the same id", async () => {
+    let failures = 1;
+    const config = { broker_address: "0x1111111111111111111111111111111111111111", networks: [] };
+    clearnode.handle("get_config", (_params, request) => {
+      if (failures-- === 0) return config;
+      // Legacy servers report failures as { status: "error", error: { code, message } }
+      for (const socket of (clearnode as any).sockets) {
+        socket.send(
+          JSON.stringify({
+            res: [request.id, "error", { error: "unavailable" }, Date.now()],
+            sig: [],
+            status: "error",
+            error: { code: 503, message: "unavailable" },
+          })
+        );
+      }
+    });
+    const message = { req: [4242, "get_config", {}, Date.now()], sig: [] };
+
+    await expect(client.sendMessage(message, { retry: { retryOn: [], retryOnCodes: [503] } })).resolves.toMatchObject({
+      method: "get_config",
+      requestId: 4242,
+    });
+    expect(requestsFor("get_config").map((request) => request.id)).toEqual([4242, 4242]);
+  });
+});
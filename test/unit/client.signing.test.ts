@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer } from "ws";
+import type { AddressInfo } from "net";
+import { keccak256, recoverAddress, toHex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { RPCMethod, createECDSAMessageSigner } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+
+type Frame = { req: [number, string, any, number]; sig: string[] };
+
+const sessionPrivateKey = generatePrivateKey();
+const sessionAddress = privateKeyToAccount(sessionPrivateKey).address;
+
+describe("Client request signing", () => {
+  let server: WebSocketServer;
+  let port: number;
+  let client: Client;
+  let received: Frame[];
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const frame: Frame = JSON.parse(data.toString());
+        received.push(frame);
+        socket.send(JSON.stringify({ res: [frame.req[0], "pong", {}, Date.now()], sig: [] }));
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const recoverSigner = (frame: Frame) =>
+    recoverAddress({ hash: keccak256(toHex(JSON.stringify(frame.req))), signature: frame.sig[0] as `0x${string}` });
+
+  it("builds and signs the envelope for request", async () => {
+    client = new Client({ url: `ws://127.0.0.1:${port}`, signer: createECDSAMessageSigner(sessionPrivateKey) });
+
+    const response = await client.request({ command: "ping", foo: "bar" });
+
+    expect(response.method).toBe("pong");
+    const [id, method, params, timestamp] = received[0].req;
+    expect(response.requestId).toBe(id);
+    expect(method).toBe("ping");
+    expect(params).toEqual({ foo: "bar" });
+    expect(typeof timestamp).toBe("number");
+    expect(await recoverSigner(received[0])).toBe(sessionAddress);
+  });
+
+  it("signs typed calls, covering bigint params as sent", async () => {
+    client = new Client({ url: `ws://127.0.0.1:${port}`, signer: createECDSAMessageSigner(sessionPrivateKey) });
+
+    await client
+      .call(RPCMethod.ResizeChannel, {
+        channel_id: "0x01",
+        resize_amount: 5n,
+        funds_destination: sessionAddress,
+      })
+      .catch(() => {});
+
+    expect(received[0].req[2].resize_amount).toBe("5");
+    expect(await recoverSigner(received[0])).toBe(sessionAddress);
+  });
+
+  it("sends an empty sig array without a signer and picks up setSigner", async () => {
+    client = new Client({ url: `ws://127.0.0.1:${port}` });
+
+    await client.request({ command: "ping" });
+    client.setSigner(createECDSAMessageSigner(sessionPrivateKey));
+    await client.request({ command: "ping" });
+
+    expect(received[0].sig).toEqual([]);
+    expect(received[1].sig).toHaveLength(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { Client, type ConnectionState } from "../../src/Client";
+import { DisconnectedError, TimeoutError } from "../../src/errors";
+import { MockClearnode } from "../../src/testing";
+
+const wallet = createWalletClient({
+  account: privateKeyToAccount(generatePrivateKey()),
+  chain: base,
+  transport: http(),
+});
+
+describe("Client connection state", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+  let states: ConnectionState[];
+
+  const createClient = (initialDelayMs: number) => {
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 2_000, backoff: { initialDelayMs, maxDelayMs: initialDelayMs } });
+    states = [];
+    client.on("stateChange", ({ state }) => states.push(state));
+  };
+
+  const authenticate = () =>
+    client.authenticate({
+      signer: wallet,
+      sessionKey: privateKeyToAccount(generatePrivateKey()).address,
+      allowances: [],
+      scope: "test.app",
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+  const waitForState = (state: ConnectionState) =>
+    new Promise<void>((resolve) => {
+      const off = client.on("stateChange", (change) => {
+        if (change.state === state) {
+          off();
+          resolve();
+        }
+      });
+    });
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start();
+    createClient(10);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  it("moves through connecting, open, authenticating and ready", async () => {
+    expect(client.state).toBe("idle");
+
+    await client.connect();
+    expect(client.state).toBe("open");
+    await authenticate();
+
+    expect(client.state).toBe("ready");
+    expect(states).toEqual(["connecting", "open", "authenticating", "ready"]);
+  });
+
+  it("falls back to open when authentication fails", async () => {
+    clearnode.handle("auth_verify", () => {
+      throw new Error("invalid signature");
+    });
+
+    await expect(authenticate()).rejects.toThrow("invalid signature");
+
+    expect(client.state).toBe("open");
+  });
+
+  it("reconnects and restores the session after a drop", async () => {
+    await authenticate();
+    states = [];
+    const ready = waitForState("ready");
+
+    clearnode.drop();
+    await ready;
+
+    expect(states).toEqual(["reconnecting", "authenticating", "ready"]);
+    await expect(client.ready()).resolves.toBeUndefined();
+  });
+
+  it("stops the backoff permanently on disconnect while reconnecting", async () => {
+    createClient(50);
+    await client.connect();
+    const reconnecting = waitForState("reconnecting");
+    clearnode.drop();
+    await reconnecting;
+
+    await client.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(client.state).toBe("closed");
+    expect(clearnode.connectionCount).toBe(0);
+  });
+
+  it("ready() times out while reconnecting and rejects once closed", async () => {
+    createClient(1_000);
+    await client.connect();
+    const reconnecting = waitForState("reconnecting");
+    clearnode.drop();
+    await reconnecting;
+
+    await expect(client.ready(20)).rejects.toBeInstanceOf(TimeoutError);
+    const pending = client.ready(0);
+    await client.disconnect();
+
+    await expect(pending).rejects.toBeInstanceOf(DisconnectedError);
+    await expect(client.ready()).rejects.toBeInstanceOf(DisconnectedError);
+  });
+});
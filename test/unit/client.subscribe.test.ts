@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { SubscriptionOverflowError } from "../../src/errors";
+
+const balanceUpdate = (amount: string) =>
+  JSON.stringify({ res: [0, "bu", { balance_updates: [{ asset: "usdc", amount }] }, 1], sig: [] });
+
+describe("Client subscribe", () => {
+  let server: WebSocketServer;
+  let client: Client;
+  let socket: WebSocket;
+  let delivered: number;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0 });
+    const connected = new Promise<WebSocket>((resolve) => server.once("connection", resolve));
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new Client({ url: `ws://127.0.0.1:${port}` });
+    await client.connect();
+    socket = await connected;
+    delivered = 0;
+    client.on("balanceUpdate", () => delivered++);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Pushes updates and waits until the client has handled all of them
+  const push = async (...amounts: string[]) => {
+    const target = delivered + amounts.length;
+    amounts.forEach((amount) => socket.send(balanceUpdate(amount)));
+    await expect.poll(() => delivered).toBe(target);
+  };
+
+  const amounts = (updates: any[]) => updates.map((u) => u.balanceUpdates[0].amount);
+
+  it("yields updates in order and unsubscribes when the loop breaks", async () => {
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate);
+    await push("1", "2", "3");
+
+    const received: any[] = [];
+    for await (const update of subscription) {
+      received.push(update);
+      if (received.length === 3) break;
+    }
+
+    expect(amounts(received)).toEqual(["1", "2", "3"]);
+    expect(subscription.closed).toBe(true);
+  });
+
+  it("drops the oldest buffered update by default", async () => {
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate, { bufferSize: 2 });
+    await push("1", "2", "3");
+    subscription.close();
+
+    const received: any[] = [];
+    for await (const update of subscription) received.push(update);
+
+    expect(amounts(received)).toEqual(["2", "3"]);
+  });
+
+  it("ends with SubscriptionOverflowError under the error policy", async () => {
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate, { bufferSize: 1, overflow: "error" });
+    await push("1", "2");
+
+    await expect(subscription.next()).rejects.toBeInstanceOf(SubscriptionOverflowError);
+    await expect(subscription.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it("ends when the signal aborts", async () => {
+    const controller = new AbortController();
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate, { signal: controller.signal });
+
+    const pending = subscription.next();
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(subscription.closed).toBe(true);
+  });
+
+  it("ends immediately for an already aborted signal", async () => {
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate, { signal: AbortSignal.abort() });
+
+    await expect(subscription.next()).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it("ends when the client disconnects", async () => {
+    const subscription = client.subscribe(RPCMethod.BalanceUpdate);
+    const pending = subscription.next();
+
+    await client.disconnect();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+  });
+});
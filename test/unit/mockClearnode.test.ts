@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { MockClearnode } from "../../src/testing";
+
+const wallet = createWalletClient({
+  account: privateKeyToAccount(generatePrivateKey()),
+  chain: base,
+  transport: http(),
+});
+const sessionKey = privateKeyToAccount(generatePrivateKey()).address;
+
+describe("MockClearnode", () => {
+  let clearnode: MockClearnode;
+  let client: Client;
+
+  beforeEach(async () => {
+    clearnode = await MockClearnode.start({ requireAuth: true });
+    client = new Client({
+      url: clearnode.url,
+      requestTimeoutMs: 1_000,
+      backoff: { initialDelayMs: 10, maxDelayMs: 10 },
+    });
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await clearnode.close();
+  });
+
+  const authenticate = () =>
+    client.authenticate({
+      signer: wallet,
+      sessionKey,
+      allowances: [],
+      scope: "test.app",
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+  it("runs the auth challenge flow and answers scripted methods", async () => {
+    clearnode.handle("get_ledger_balances", { ledger_balances: [{ asset: "usdc", amount: "3" }] });
+
+    const session = await authenticate();
+    const { ledgerBalances } = await client.call(RPCMethod.GetLedgerBalances);
+
+    expect(session).toMatchObject({ address: wallet.account.address, sessionKey, jwtToken: "mock-jwt" });
+    expect(ledgerBalances).toEqual([{ asset: "usdc", amount: "3" }]);
+    expect(clearnode.requests.map((request) => request.method)).toEqual([
+      "auth_request",
+      "auth_verify",
+      "get_ledger_balances",
+    ]);
+    expect(clearnode.requests[1].sig).toHaveLength(1);
+  });
+
+  it("rejects unauthenticated and unsupported requests", async () => {
+    clearnode.handle("get_config", {});
+
+    await expect(client.call(RPCMethod.GetConfig)).rejects.toThrow("authentication required");
+    await authenticate();
+    await expect(client.call(RPCMethod.GetUserTag)).rejects.toThrow("unsupported method get_user_tag");
+  });
+
+  it("sends scripted errors as error frames", async () => {
+    clearnode.handle("auth_verify", () => {
+      throw new Error("invalid signature");
+    });
+
+    await expect(authenticate()).rejects.toThrow("invalid signature");
+  });
+
+  it("pushes notifications on demand", async () => {
+    await client.connect();
+    await clearnode.waitForConnection();
+    const received = new Promise<any>((resolve) => client.once("balanceUpdate", resolve));
+
+    clearnode.push("bu", { balance_updates: [{ asset: "usdc", amount: "1" }] });
+
+    expect(await received).toEqual({ balanceUpdates: [{ asset: "usdc", amount: "1" }] });
+  });
+
+  it("re-authenticates with the JWT after a dropped connection", async () => {
+    await authenticate();
+    const reauthenticated = new Promise((resolve) => client.once("reauthenticated", resolve));
+    const verify = clearnode.waitForRequest("auth_verify");
+
+    clearnode.drop();
+
+    expect((await verify).params).toEqual({ jwt: "mock-jwt" });
+    await reauthenticated;
+    expect(client.isAuthenticated).toBe(true);
+  });
+
+  it("simulates latency past the request timeout", async () => {
+    client = new Client({ url: clearnode.url, requestTimeoutMs: 50 });
+    clearnode.latencyMs = 200;
+
+    await expect(client.call(RPCMethod.Ping)).rejects.toThrow("Request timed out");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { createWalletClient, http } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { ReplayTransport, SessionRecorder, parseRecording } from "../../src/recording";
+import { MockClearnode } from "../../src/testing";
+
+const wallet = createWalletClient({
+  account: privateKeyToAccount(generatePrivateKey()),
+  chain: base,
+  transport: http(),
+});
+const sessionKey = privateKeyToAccount(generatePrivateKey()).address;
+
+const authenticate = (client: Client) =>
+  client.authenticate({
+    signer: wallet,
+    sessionKey,
+    allowances: [],
+    scope: "test.app",
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+  });
+
+async function recordSession(): Promise<string> {
+  const clearnode = await MockClearnode.start({ requireAuth: true });
+  clearnode.handle("get_ledger_balances", { ledger_balances: [{ asset: "usdc", amount: "3" }] });
+  const lines: string[] = [];
+  const recorder = new SessionRecorder({ write: (line) => lines.push(line) });
+  const client = new Client({ url: clearnode.url, requestTimeoutMs: 1_000 });
+  client.use(recorder.middleware);
+  try {
+    await authenticate(client);
+    const pushed = new Promise((resolve) => client.once("balanceUpdate", resolve));
+    clearnode.push("bu", { balance_updates: [{ asset: "usdc", amount: "4" }] });
+    await pushed;
+    await client.call(RPCMethod.GetLedgerBalances);
+  } finally {
+    await client.disconnect();
+    await clearnode.close();
+  }
+  return lines.map((line) => line + "\n").join("");
+}
+
+describe("Session recording and replay", () => {
+  it("records every frame with timestamps and redacted secrets", async () => {
+    const jsonl = await recordSession();
+    const frames = parseRecording(jsonl);
+
+    expect(frames.map(({ direction, frame }) => [direction, JSON.parse(frame).req?.[1] ?? JSON.parse(frame).res[1]])).toEqual([
+      ["send", "auth_request"],
+      ["receive", "auth_challenge"],
+      ["send", "auth_verify"],
+      ["receive", "auth_verify"],
+      ["receive", "bu"],
+      ["send", "get_ledger_balances"],
+      ["receive", "get_ledger_balances"],
+    ]);
+    expect(frames.every(({ at }) => typeof at === "number" && at > 0)).toBe(true);
+    expect(JSON.parse(frames[2].frame).sig).toEqual(["[redacted]"]);
+    expect(jsonl).not.toContain("mock-jwt");
+    expect(jsonl).not.toContain("mock-challenge");
+  });
+
+  it("replays a recording into a client without a network", async () => {
+    const transport = new ReplayTransport(await recordSession());
+    const client = new Client({ url: "ws://replay", transport });
+    const pushed = new Promise((resolve) => client.once("balanceUpdate", resolve));
+
+    const session = await authenticate(client);
+    expect(await pushed).toEqual({ balanceUpdates: [{ asset: "usdc", amount: "4" }] });
+    const { ledgerBalances } = await client.call(RPCMethod.GetLedgerBalances);
+    await client.disconnect();
+
+    expect(session).toMatchObject({ address: wallet.account.address, sessionKey, jwtToken: "[redacted]" });
+    expect(ledgerBalances).toEqual([{ asset: "usdc", amount: "3" }]);
+    expect(transport.done).toBe(true);
+  });
+
+  it("rejects requests that diverge from the recording", async () => {
+    const transport = new ReplayTransport(await recordSession());
+    const client = new Client({ url: "ws://replay", transport, retry: false });
+
+    await expect(client.call(RPCMethod.GetConfig)).rejects.toThrow("Replay diverged: expected auth_request #1 but the client sent get_config #1");
+    await client.disconnect();
+    expect(transport.remaining).toHaveLength(7);
+  });
+});
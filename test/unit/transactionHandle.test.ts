@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { RawContractError, WaitForTransactionReceiptTimeoutError, encodeErrorResult } from "viem";
+import { CustodyAbi } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { NotConfiguredError, TimeoutError, TransactionReplacedError, TransactionRevertedError } from "../../src/errors";
+import type { TransactionPublicClient } from "../../src/TransactionHandle";
+
+const HASH = `0x${"aa".repeat(32)}` as const;
+const REPLACEMENT = `0x${"bb".repeat(32)}` as const;
+const CHANNEL_ID = `0x${"cc".repeat(32)}` as const;
+
+const receipt = (status: "success" | "reverted", transactionHash = HASH) =>
+  ({ status, transactionHash, blockNumber: 10n }) as any;
+
+const fakePublicClient = (overrides: Partial<Record<keyof TransactionPublicClient, any>>) =>
+  ({
+    waitForTransactionReceipt: vi.fn(async () => receipt("success")),
+    getTransaction: vi.fn(async () => ({ from: "0x1111111111111111111111111111111111111111", to: "0x2222222222222222222222222222222222222222", input: "0x", value: 0n })),
+    call: vi.fn(async () => ({ data: "0x" })),
+    ...overrides,
+  }) as TransactionPublicClient & Record<string, ReturnType<typeof vi.fn>>;
+
+describe("TransactionHandle", () => {
+  it("emits pending then confirmed after the requested confirmations", async () => {
+    const publicClient = fakePublicClient({});
+    const client = new Client({ url: "ws://127.0.0.1:1" });
+    const events: string[] = [];
+
+    const handle = client.waitFor(HASH, { publicClient, confirmations: 3 });
+    handle.on("pending", () => events.push("pending"));
+    handle.on("confirmed", ({ confirmations }) => events.push(`confirmed:${confirmations}`));
+
+    await expect(handle.wait()).resolves.toMatchObject({ status: "success" });
+    expect(events).toEqual(["pending", "confirmed:3"]);
+    expect(handle.status).toBe("confirmed");
+    expect(publicClient.waitForTransactionReceipt).toHaveBeenCalledWith(expect.objectContaining({ hash: HASH, confirmations: 3 }));
+  });
+
+  it("decodes the custody revert reason", async () => {
+    const data = encodeErrorResult({ abi: CustodyAbi, errorName: "ChannelNotFound", args: [CHANNEL_ID] });
+    const publicClient = fakePublicClient({
+      waitForTransactionReceipt: vi.fn(async () => receipt("reverted")),
+      call: vi.fn(async () => {
+        throw new RawContractError({ data });
+      }),
+    });
+    const client = new Client({ url: "ws://127.0.0.1:1" });
+
+    const handle = client.waitFor(HASH, { publicClient });
+    const reverted = new Promise((resolve) => handle.once("reverted", resolve));
+
+    const error = await handle.wait().catch((e) => e);
+    expect(error).toBeInstanceOf(TransactionRevertedError);
+    expect(error.reason).toBe(`ChannelNotFound(${CHANNEL_ID})`);
+    expect(await reverted).toMatchObject({ hash: HASH, reason: `ChannelNotFound(${CHANNEL_ID})` });
+    expect(publicClient.call).toHaveBeenCalledWith(expect.objectContaining({ blockNumber: 10n }));
+  });
+
+  it("fails on a cancelling replacement and follows a repriced one", async () => {
+    const replacing = (reason: string) =>
+      fakePublicClient({
+        waitForTransactionReceipt: vi.fn(async ({ onReplaced }) => {
+          onReplaced({ reason, transaction: { hash: REPLACEMENT } });
+          return receipt("success", REPLACEMENT);
+        }),
+      });
+    const client = new Client({ url: "ws://127.0.0.1:1" });
+
+    const cancelled = client.waitFor(HASH, { publicClient: replacing("cancelled") });
+    const replaced = new Promise((resolve) => cancelled.once("replaced", resolve));
+    await expect(cancelled.wait()).rejects.toBeInstanceOf(TransactionReplacedError);
+    expect(await replaced).toEqual({ hash: HASH, replacement: REPLACEMENT, reason: "cancelled" });
+    expect(cancelled.status).toBe("replaced");
+
+    const repriced = client.waitFor(HASH, { publicClient: replacing("repriced") });
+    await expect(repriced.wait()).resolves.toMatchObject({ transactionHash: REPLACEMENT });
+    expect(repriced.status).toBe("confirmed");
+  });
+
+  it("rejects with TimeoutError when the receipt does not arrive in time", async () => {
+    const publicClient = fakePublicClient({
+      waitForTransactionReceipt: vi.fn(async () => {
+        throw new WaitForTransactionReceiptTimeoutError({ hash: HASH });
+      }),
+    });
+    const client = new Client({ url: "ws://127.0.0.1:1" });
+
+    await expect(client.waitFor(HASH, { publicClient, timeoutMs: 50 }).wait()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("needs a public client", () => {
+    const client = new Client({ url: "ws://127.0.0.1:1" });
+
+    expect(() => client.waitFor(HASH)).toThrow(NotConfiguredError);
+  });
+});
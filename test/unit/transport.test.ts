@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { MessageChannel } from "worker_threads";
+import { WebSocketServer } from "ws";
+import type { AddressInfo } from "net";
+import type { IncomingHttpHeaders } from "http";
+import { RPCMethod } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { MemoryTransport, type MemoryPeer } from "../../src/MemoryTransport";
+import { SharedWorkerTransport, serveSharedWorker } from "../../src/SharedWorkerTransport";
+import { NodeTransport } from "../../src/transport";
+
+// Answers every request with an empty asset list
+function answerAssets(peer: MemoryPeer) {
+  peer.onMessage((frame) => {
+    const [id, method] = JSON.parse(frame).req;
+    peer.send({ res: [id, method, { assets: [] }, Date.now()], sig: [] });
+  });
+}
+
+describe("Transports", () => {
+  it("connects a client in memory and reconnects after the peer drops", async () => {
+    const transport = new MemoryTransport(answerAssets);
+    const client = new Client({ url: "memory://clearnode", transport, backoff: { initialDelayMs: 10 } });
+
+    await client.call(RPCMethod.GetAssets);
+    const received = new Promise((resolve) => client.once("balanceUpdate", resolve));
+    transport.connections[0].send({ res: [0, "bu", { balance_updates: [{ asset: "usdc", amount: "1" }] }, Date.now()] });
+    await expect(received).resolves.toEqual({ balanceUpdates: [{ asset: "usdc", amount: "1" }] });
+
+    const reconnected = new Promise((resolve) => transport.onConnection(resolve));
+    transport.connections[0].close();
+    await reconnected;
+    await client.call(RPCMethod.GetAssets);
+    await client.disconnect();
+
+    expect(transport.connections).toHaveLength(0);
+  });
+
+  it("reports sockets that fail to open on a reconnect and keeps retrying", async () => {
+    const memory = new MemoryTransport(answerAssets);
+    let opened = 0;
+    const transport = {
+      open(url: string) {
+        if (++opened === 2) throw new Error("socket limit reached");
+        return memory.open(url);
+      },
+    };
+    const client = new Client({ url: "memory://clearnode", transport, backoff: { initialDelayMs: 10 } });
+    const errors: Error[] = [];
+    client.on("error", (error) => errors.push(error));
+    await client.connect();
+
+    const reconnected = new Promise((resolve) => memory.onConnection(resolve));
+    memory.connections[0].close();
+    await reconnected;
+    await client.call(RPCMethod.GetAssets);
+    await client.disconnect();
+
+    expect(opened).toBe(3);
+    expect(errors).toEqual([new Error("socket limit reached")]);
+  });
+
+  it("doubles the reconnect delay after every failed attempt, up to maxDelayMs", async () => {
+    const memory = new MemoryTransport(answerAssets);
+    let opened = 0;
+    const transport = {
+      open(url: string) {
+        if (++opened > 1 && opened < 5) throw new Error("socket limit reached");
+        return memory.open(url);
+      },
+    };
+    const client = new Client({ url: "memory://clearnode", transport, backoff: { initialDelayMs: 10, maxDelayMs: 25 } });
+    client.on("error", () => {});
+    const delays: number[] = [];
+    client.on("reconnecting", ({ delayMs }) => delays.push(delayMs));
+    await client.connect();
+
+    const reconnected = new Promise((resolve) => memory.onConnection(resolve));
+    memory.connections[0].close();
+    await reconnected;
+    await client.disconnect();
+
+    expect(delays).toEqual([10, 20, 25, 25]);
+  });
+
+  it("opens Node sockets with custom headers", async () => {
+    const server = new WebSocketServer({ port: 0 });
+    const headers = new Promise<IncomingHttpHeaders>((resolve) => server.on("connection", (_, request) => resolve(request.headers)));
+    const client = new Client({
+      url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      transport: new NodeTransport({ headers: { "x-api-key": "secret" } }),
+      retry: false,
+    });
+    try {
+      await client.connect();
+      expect((await headers)["x-api-key"]).toBe("secret");
+    } finally {
+      await client.disconnect();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("relays frames through a shared worker port", async () => {
+    const channel = new MessageChannel();
+    const upstream = new MemoryTransport(answerAssets);
+    serveSharedWorker({ addEventListener: (_, listener) => listener({ ports: [channel.port2 as any] }) }, upstream);
+    const client = new Client({ url: "wss://clearnode", transport: new SharedWorkerTransport(channel.port1 as any), retry: false });
+
+    try {
+      const { assets } = await client.call(RPCMethod.GetAssets);
+      expect(assets).toEqual([]);
+      expect(upstream.connections.map(({ url }) => url)).toEqual(["wss://clearnode"]);
+      await client.disconnect();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(upstream.connections).toHaveLength(0);
+    } finally {
+      channel.port1.close();
+    }
+  });
+
+  it("leaves the global WebSocket untouched", async () => {
+    const server = new WebSocketServer({ port: 0 });
+    const before = (globalThis as any).WebSocket;
+    const client = new Client({ url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`, retry: false });
+    try {
+      await client.connect();
+      expect((globalThis as any).WebSocket).toBe(before);
+    } finally {
+      await client.disconnect();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
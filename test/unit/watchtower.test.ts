@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { keccak256, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { CustodyAbi, StateIntent, getPackedState } from "@erc7824/nitrolite";
+import { Client } from "../../src/Client";
+import { ChannelStore } from "../../src/ChannelStore";
+import { CustodyChallengeSource, Watchtower, type ChallengeEvent, type ChallengeEventSource } from "../../src/Watchtower";
+
+const user = privateKeyToAccount(generatePrivateKey());
+const broker = privateKeyToAccount(generatePrivateKey());
+const channelId = keccak256("0x01") as Hex;
+
+const signedState = async (version: bigint) => {
+  const state = {
+    intent: StateIntent.OPERATE,
+    version,
+    data: "0x" as Hex,
+    allocations: [{ destination: user.address, token: broker.address, amount: version }],
+    sigs: [] as Hex[],
+  };
+  const packed = getPackedState(channelId, state);
+  state.sigs = [await user.signMessage({ message: { raw: packed } }), await broker.signMessage({ message: { raw: packed } })];
+  return state;
+};
+
+class FakeChallengeSource implements ChallengeEventSource {
+  private listener: ((event: ChallengeEvent) => void) | null = null;
+
+  subscribe(onChallenge: (event: ChallengeEvent) => void) {
+    this.listener = onChallenge;
+    return () => (this.listener = null);
+  }
+
+  challenge(channelId: Hex, version: bigint, expiresInMs = 60_000) {
+    this.listener?.({ channelId, version, expiration: BigInt(Math.floor((Date.now() + expiresInMs) / 1000)) });
+  }
+}
+
+describe("Watchtower", () => {
+  let store: ChannelStore;
+  let source: FakeChallengeSource;
+  let client: Client;
+  let nitrolite: { checkpointChannel: ReturnType<typeof vi.fn>; challengeChannel: ReturnType<typeof vi.fn> };
+  let watchtower: Watchtower;
+
+  beforeEach(async () => {
+    store = new ChannelStore();
+    await store.record(channelId, await signedState(1n), [user.address, broker.address]);
+    await store.record(channelId, await signedState(2n));
+    source = new FakeChallengeSource();
+    nitrolite = {
+      checkpointChannel: vi.fn().mockResolvedValue("0xcheckpoint"),
+      challengeChannel: vi.fn().mockResolvedValue("0xchallenge"),
+    };
+    client = new Client({ channelStore: store, nitrolite: {}, createNitroliteClient: () => nitrolite as any });
+    watchtower = new Watchtower(client, { source, retryDelayMs: 10 });
+    watchtower.start();
+  });
+
+  afterEach(() => watchtower.stop());
+
+  it("checkpoints the latest state when challenged with a stale one", async () => {
+    const responded = new Promise((resolve) => watchtower.once("responded", resolve));
+
+    source.challenge(channelId, 1n);
+
+    expect(await responded).toEqual({ channelId, version: 2n, action: "checkpoint", txHash: "0xcheckpoint" });
+    expect(nitrolite.checkpointChannel).toHaveBeenCalledWith({
+      channelId,
+      candidateState: await store.latest(channelId),
+      proofStates: [],
+    });
+  });
+
+  it("counter-challenges when configured to", async () => {
+    watchtower.stop();
+    watchtower = new Watchtower(client, { source, response: "challenge" });
+    watchtower.start();
+    const responded = new Promise((resolve) => watchtower.once("responded", resolve));
+
+    source.challenge(channelId, 1n);
+
+    expect(await responded).toMatchObject({ action: "challenge", txHash: "0xchallenge" });
+    expect(nitrolite.checkpointChannel).not.toHaveBeenCalled();
+  });
+
+  it("accepts a challenge with our latest state and ignores foreign channels", async () => {
+    const challenges: ChallengeEvent[] = [];
+    watchtower.on("challenge", (event) => challenges.push(event));
+    const accepted = new Promise((resolve) => watchtower.once("accepted", resolve));
+
+    source.challenge(keccak256("0x02"), 0n);
+    source.challenge(channelId, 2n);
+
+    await expect(accepted).resolves.toMatchObject({ channelId, version: 2n });
+    expect(challenges.map((event) => event.channelId)).toEqual([channelId]);
+    expect(nitrolite.checkpointChannel).not.toHaveBeenCalled();
+  });
+
+  it("retries a failed response while the challenge period lasts", async () => {
+    nitrolite.checkpointChannel.mockRejectedValueOnce(new Error("nonce too low"));
+    const failures: boolean[] = [];
+    watchtower.on("failed", ({ willRetry }) => failures.push(willRetry));
+    const responded = new Promise((resolve) => watchtower.once("responded", resolve));
+
+    source.challenge(channelId, 1n);
+
+    await responded;
+    expect(failures).toEqual([true]);
+    expect(nitrolite.checkpointChannel).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports store errors instead of ignoring the challenge", async () => {
+    vi.spyOn(store, "latest").mockRejectedValueOnce(new Error("disk unavailable"));
+    const failed = new Promise((resolve) => watchtower.once("failed", resolve));
+    const responded = new Promise((resolve) => watchtower.once("responded", resolve));
+
+    source.challenge(channelId, 1n);
+
+    expect(await failed).toMatchObject({ channelId, error: new Error("disk unavailable"), willRetry: true });
+    await expect(responded).resolves.toMatchObject({ channelId, version: 2n });
+  });
+
+  it("gives up once the challenge period is about to expire", async () => {
+    nitrolite.checkpointChannel.mockRejectedValue(new Error("nonce too low"));
+    const failed = new Promise((resolve) => watchtower.once("failed", resolve));
+
+    source.challenge(channelId, 1n, 0);
+
+    expect(await failed).toMatchObject({ channelId, willRetry: false });
+  });
+});
+
+describe("CustodyChallengeSource", () => {
+  it("delivers Challenged events of the custody contract", () => {
+    const custody = "0x2222222222222222222222222222222222222222";
+    const unwatch = vi.fn();
+    const watchContractEvent = vi.fn((_params: any) => unwatch);
+    const events: ChallengeEvent[] = [];
+
+    const stop = new CustodyChallengeSource({ watchContractEvent } as any, custody).subscribe((event) => events.push(event));
+    const params = watchContractEvent.mock.calls[0][0];
+    params.onLogs([
+      { args: { channelId, state: { version: 3n }, expiration: 1_700_000_000n }, transactionHash: "0xabc" },
+    ]);
+    stop();
+
+    expect(params).toMatchObject({ address: custody, abi: CustodyAbi, eventName: "Challenged" });
+    expect(params.abi).toContainEqual(expect.objectContaining({ type: "event", name: "Challenged" }));
+    expect(events).toEqual([{ channelId, version: 3n, expiration: 1_700_000_000n, txHash: "0xabc" }]);
+    expect(unwatch).toHaveBeenCalled();
+  });
+});
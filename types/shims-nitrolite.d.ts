@@ -1,22 +1,92 @@
 declare module "@erc7824/nitrolite" {
+	export type PreparedTransaction = any;
+
+	export class NitroliteTransactionPreparer {
+		prepareDepositTransactions(tokenAddress: `0x${string}`, amount: bigint): Promise<PreparedTransaction[]>;
+		prepareApproveTokensTransaction(tokenAddress: `0x${string}`, amount: bigint): Promise<PreparedTransaction>;
+		prepareCreateChannelTransaction(params: any): Promise<PreparedTransaction>;
+		prepareDepositAndCreateChannelTransactions(tokenAddress: `0x${string}`, depositAmount: bigint, params: any): Promise<PreparedTransaction[]>;
+		prepareCheckpointChannelTransaction(params: any): Promise<PreparedTransaction>;
+		prepareChallengeChannelTransaction(params: any): Promise<PreparedTransaction>;
+		prepareResizeChannelTransaction(params: any): Promise<PreparedTransaction>;
+		prepareCloseChannelTransaction(params: any): Promise<PreparedTransaction>;
+		prepareWithdrawalTransaction(tokenAddress: `0x${string}`, amount: bigint): Promise<PreparedTransaction>;
+	}
+
+	export interface StateSigner {
+		getAddress(): `0x${string}`;
+		signState(channelId: ChannelId, state: State): Promise<`0x${string}`>;
+		signRawMessage(message: `0x${string}`): Promise<`0x${string}`>;
+	}
+
+	export class WalletStateSigner implements StateSigner {
+		constructor(walletClient: any);
+		getAddress(): `0x${string}`;
+		signState(channelId: ChannelId, state: State): Promise<`0x${string}`>;
+		signRawMessage(message: `0x${string}`): Promise<`0x${string}`>;
+	}
+
 	export class NitroliteClient {
 		constructor(config: any);
-		deposit(amount: bigint): Promise<any>;
-		approveTokens(amount: bigint): Promise<any>;
-		getTokenAllowance(): Promise<bigint>;
-		getTokenBalance(): Promise<bigint>;
+		readonly txPreparer: NitroliteTransactionPreparer;
+		deposit(tokenAddress: `0x${string}`, amount: bigint): Promise<any>;
+		approveTokens(tokenAddress: `0x${string}`, amount: bigint): Promise<any>;
+		getTokenAllowance(tokenAddress: `0x${string}`): Promise<bigint>;
+		getTokenBalance(tokenAddress: `0x${string}`): Promise<bigint>;
 		createChannel(params: any): Promise<any>;
-		depositAndCreateChannel(depositAmount: bigint, params: any): Promise<any>;
+		depositAndCreateChannel(tokenAddress: `0x${string}`, depositAmount: bigint, params: any): Promise<any>;
 		checkpointChannel(params: any): Promise<any>;
 		challengeChannel(params: any): Promise<any>;
-		resizeChannel(params: any): Promise<any>;
+		resizeChannel(params: any): Promise<{ resizeState: State; txHash: Hash }>;
 		closeChannel(params: any): Promise<any>;
-		withdrawal(amount: bigint): Promise<any>;
-		getAccountChannels(): Promise<any[]>;
-		getAccountInfo(): Promise<any>;
+		withdrawal(tokenAddress: `0x${string}`, amount: bigint): Promise<any>;
+		getOpenChannels(): Promise<ChannelId[]>;
+		getAccountBalance(tokenAddress: `0x${string}`): Promise<bigint>;
+		getChannelBalance(channelId: ChannelId, tokenAddress: `0x${string}`): Promise<bigint>;
+		getChannelData(channelId: ChannelId): Promise<ChannelData>;
 	}
 
-	export type RPCMethod = string;
+	export enum RPCMethod {
+		AuthRequest = "auth_request",
+		AuthChallenge = "auth_challenge",
+		AuthVerify = "auth_verify",
+		Error = "error",
+		GetConfig = "get_config",
+		GetLedgerBalances = "get_ledger_balances",
+		GetLedgerEntries = "get_ledger_entries",
+		GetLedgerTransactions = "get_ledger_transactions",
+		GetUserTag = "get_user_tag",
+		GetSessionKeys = "get_session_keys",
+		RevokeSessionKey = "revoke_session_key",
+		CreateAppSession = "create_app_session",
+		SubmitAppState = "submit_app_state",
+		CloseAppSession = "close_app_session",
+		GetAppDefinition = "get_app_definition",
+		GetAppSessions = "get_app_sessions",
+		CreateChannel = "create_channel",
+		ResizeChannel = "resize_channel",
+		CloseChannel = "close_channel",
+		GetChannels = "get_channels",
+		GetRPCHistory = "get_rpc_history",
+		GetAssets = "get_assets",
+		CleanupSessionKeyCache = "cleanup_session_key_cache",
+		Assets = "assets",
+		Message = "message",
+		BalanceUpdate = "bu",
+		ChannelsUpdate = "channels",
+		ChannelUpdate = "cu",
+		Ping = "ping",
+		Pong = "pong",
+		Transfer = "transfer",
+		TransferNotification = "tr",
+		AppSessionUpdate = "asu",
+	}
+	export enum StateIntent {
+		OPERATE = 0,
+		INITIALIZE = 1,
+		RESIZE = 2,
+		FINALIZE = 3,
+	}
 	export type CreateChannelParams = any;
 	export type CheckpointChannelParams = any;
 	export type ChallengeChannelParams = any;
@@ -25,10 +95,23 @@ declare module "@erc7824/nitrolite" {
 	export type ChannelId = any;
 	export type State = any;
 	export type Hash = any;
-	export type AccountInfo = any;
+	export type ChannelData = any;
 	export type NitroliteClientConfig = any;
+	export type MessageSigner = (payload: any) => Promise<any>;
+	export type RPCAllowance = { asset: string; amount: string };
+	export type RPCResponse = { method: RPCMethod; requestId?: number; timestamp?: number; signatures?: any[]; params: any };
+
+	export const CustodyAbi: any;
+
+	export function getPackedState(channelId: any, state: any): `0x${string}`;
 
 	export function parseRPCResponse(data: any): any;
+	export function parseAnyRPCResponse(data: string): RPCResponse;
+
+	export function createAuthRequestMessage(params: any, requestId?: number, timestamp?: number): Promise<string>;
+	export function createAuthVerifyMessageFromChallenge(signer: MessageSigner, challenge: string, requestId?: number, timestamp?: number): Promise<string>;
+	export function createAuthVerifyMessageWithJWT(jwtToken: string, requestId?: number, timestamp?: number): Promise<string>;
+	export function createEIP712AuthMessageSigner(walletClient: any, partialMessage: any, domain: { name: string }): MessageSigner;
 }
 
 